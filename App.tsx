@@ -1,49 +1,314 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
-import { ParticleSystem } from './components/ParticleSystem';
-import { ParticleShape, HandData, GestureType } from './types';
-import { HandTrackingService } from './services/handTrackingService';
+import { ParticleSystem, TEXT_FONTS, TextStyle } from './components/ParticleSystem';
+import { ParticleShape, HandData, GestureType, CustomGesture } from './types';
+import { HandTrackingError, HandTrackingService } from './services/handTrackingService';
+import { registerOfflineCache } from './services/offlineCache';
+import { createHandInput, HandInputProvider, LIVE_HAND_INPUTS, MediaPipeHandInput, NO_HANDS } from './services/handInput';
+import { HandReplaySource, parseHandRecording, serializeHandRecording } from './services/handReplay';
+import { GeminiLiveService } from './services/geminiLiveService';
+import { AUDIO_BANDS, AudioAnalyzer, AudioBand, AudioMapping, DEFAULT_AUDIO_MAPPING } from './services/audioAnalyzer';
+import { isModelFile, loadModelTriangles } from './services/modelLoader';
+import { MORPH_EASINGS, MorphEasing } from './services/morphEngine';
+import { GestureAction, GestureMapping, loadGestureMapping, saveGestureMapping } from './services/gestureMapping';
+import { GestureMappingPanel } from './components/GestureMappingPanel';
+import { GestureClassifier, isCustomGesture } from './services/gestureClassifier';
+import { GestureTrainingPanel } from './components/GestureTrainingPanel';
+import {
+  BurstTrigger,
+  CloudRotation,
+  COLOR_MODES,
+  ColorMode,
+  findPalette,
+  FORCE_MODES,
+  ForceCursor,
+  ForceMode,
+  PALETTES,
+  ParticleColoring,
+} from './components/particleDynamics';
+import { HandCursor } from './components/HandCursor';
+import { PerformanceMonitor } from './components/PerformanceMonitor';
+import { PERFORMANCE_TIERS, PerformanceGovernor, PerformanceSample } from './services/performanceGovernor';
+import { CaptureFormat, CaptureSettings, FrameCapture } from './components/FrameCapture';
+import {
+  DEFAULT_POST_SETTINGS,
+  hasPostEffects,
+  POST_QUALITIES,
+  PostProcessing,
+  PostQuality,
+  PostSettings,
+} from './components/PostProcessing';
+import { encodeScenePreset, parseScenePreset, SCENE_PRESETS, ScenePreset, scenePresetUrl } from './services/scenePreset';
+import {
+  encodeShowConfig,
+  isShowSupported,
+  parseShowConfig,
+  ShowCamera,
+  ShowChannel,
+  ShowConfig,
+  ShowMessage,
+  ShowState,
+} from './services/showSync';
+import { ShowView } from './components/ShowView';
+
+const TENSION_TICK_MS = 10;
+
+// Close 80% of the gap per tick; `ticks` may be fractional when a capture steps it
+const smoothTensionStep = (prev: number, target: number, ticks: number) => {
+  const next = target + (prev - target) * Math.pow(0.2, ticks);
+  return Math.abs(target - next) < 0.003 ? target : next;
+};
 
 const App: React.FC = () => {
+  // Scene from a shared link (falls back to the defaults for anything missing)
+  const [initialScene] = useState(() => parseScenePreset(window.location.search));
+
   // State
-  const [activeShape, setActiveShape] = useState<ParticleShape>(ParticleShape.SPHERE);
-  const [particleColor, setParticleColor] = useState<string>('#4ade80');
+  const [activeShape, setActiveShape] = useState<ParticleShape>(initialScene.shape);
+  const [particleColor, setParticleColor] = useState<string>(initialScene.color);
+  const [coloring, setColoring] = useState<ParticleColoring>(initialScene.coloring);
   const [isTracking, setIsTracking] = useState(false);
+  const [trackingError, setTrackingError] = useState<string | null>(null);
+  const [inputKind, setInputKind] = useState<(typeof LIVE_HAND_INPUTS)[number]['kind']>('mediapipe');
   const [handData, setHandData] = useState<HandData>({ tension: 0, detected: false, gesture: 'none' });
   const [smoothTension, setSmoothTension] = useState(0);
   const [currentGesture, setCurrentGesture] = useState<GestureType>('none');
   const [previousShape, setPreviousShape] = useState<ParticleShape>(ParticleShape.SPHERE);
   const [previousColor, setPreviousColor] = useState<string>('#4ade80');
   const [isPanelOpen, setIsPanelOpen] = useState(false); // Control panel visibility
-  const [customText, setCustomText] = useState('大雷早上好');
-  const [inputText, setInputText] = useState('大雷早上好');
+  const [customText, setCustomText] = useState(initialScene.text);
+  const [inputText, setInputText] = useState(initialScene.text);
+  const [textStyle, setTextStyle] = useState<TextStyle>(initialScene.textStyle);
+  const [textSequence, setTextSequence] = useState('大雷早上好\n\nHello\nWorld ✨'); // Messages separated by blank lines
+  const [sequenceInterval, setSequenceInterval] = useState(4); // Seconds per message
+  const [isSequencePlaying, setIsSequencePlaying] = useState(false);
+  const [logoImage, setLogoImage] = useState<HTMLImageElement | null>(null);
+  const [modelTriangles, setModelTriangles] = useState<Float32Array | null>(null);
+  const [modelName, setModelName] = useState('');
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [morphDuration, setMorphDuration] = useState(1.2); // Seconds
+  const [morphEasing, setMorphEasing] = useState<MorphEasing>('easeInOutCubic');
+  const [particleCount, setParticleCount] = useState(initialScene.count);
+  const [gestureMapping, setGestureMapping] = useState<GestureMapping>(loadGestureMapping);
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [previousText, setPreviousText] = useState('大雷早上好');
+  const [isRotating, setIsRotating] = useState(initialScene.rotate);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [burst, setBurst] = useState<BurstTrigger | null>(null);
+  const [forceMode, setForceMode] = useState<ForceMode | 'off'>('off');
+  const [isRecordingHands, setIsRecordingHands] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>({ format: 'webm', width: 1920, height: 1080, fps: 60, duration: 10 });
+  const [activeCapture, setActiveCapture] = useState<CaptureSettings | null>(null);
+  const [captureProgress, setCaptureProgress] = useState(0);
+  const [captureRun, setCaptureRun] = useState(0); // Remounts the particles so each capture starts from rest
+  const [voiceStatus, setVoiceStatus] = useState<'off' | 'connecting' | 'on'>('off');
+  const [audioSource, setAudioSource] = useState<'off' | 'mic' | 'file'>('off');
+  const [audioMapping, setAudioMapping] = useState<AudioMapping>(DEFAULT_AUDIO_MAPPING);
+  const [postSettings, setPostSettings] = useState<PostSettings>(DEFAULT_POST_SETTINGS);
+  const [isAdaptive, setIsAdaptive] = useState(true);
+  const [targetFps, setTargetFps] = useState(60);
+  const [perfSample, setPerfSample] = useState<PerformanceSample>({ fps: 0, tier: 0 });
+  const [showConfig, setShowConfig] = useState<ShowConfig>(() => parseShowConfig(window.location.search));
+  const [showEpoch, setShowEpoch] = useState<number | null>(() => (showConfig.role === 'follower' ? null : Date.now()));
+  const [showChannel, setShowChannel] = useState<ShowChannel | null>(null);
   
   // Refs
   const videoRef = useRef<HTMLVideoElement>(null);
-  const handTrackingRef = useRef<HandTrackingService | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HandInputProvider | null>(null);
+  const handTrackingRef = useRef<HandTrackingService | null>(null); // Set while the MediaPipe input runs
+  const replayRef = useRef<HandReplaySource | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const voiceRef = useRef<GeminiLiveService | null>(null);
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const audioAnalyzerRef = useRef(new AudioAnalyzer());
+  const audioInputRef = useRef<HTMLInputElement>(null);
+  const classifierRef = useRef(new GestureClassifier());
+  const governorRef = useRef(new PerformanceGovernor());
+  const remoteCameraRef = useRef<ShowCamera | null>(null); // Followers: latest controller camera
+  const cloudRotationRef = useRef<CloudRotation | null>(null); // Controller publishes it, followers copy it
+  const showStateRef = useRef<ShowState | null>(null); // Controller: answer for followers that join late
+  const [customGestures, setCustomGestures] = useState(() => classifierRef.current.list());
   const gestureTimerRef = useRef<NodeJS.Timeout | null>(null);
 
   // Smooth tension for better visual effect - INSTANT response!
+  // A capture steps it from its own clock instead (handleCaptureFrame)
+  const tensionTargetRef = useRef<number | null>(null);
   useEffect(() => {
+    tensionTargetRef.current = handData.detected ? handData.tension : null;
+    if (activeCapture) return;
     const targetTension = handData.detected ? handData.tension : smoothTension;
-    const smoothingFactor = 0.8; // Almost instant response
-    
+
     const interval = setInterval(() => {
-      setSmoothTension(prev => {
-        const diff = targetTension - prev;
-        if (Math.abs(diff) < 0.003) return targetTension;
-        return prev + diff * smoothingFactor;
-      });
-    }, 10); // Ultra fast update rate
-    
+      setSmoothTension(prev => smoothTensionStep(prev, targetTension, 1));
+    }, TENSION_TICK_MS); // Ultra fast update rate
+
     return () => clearInterval(interval);
-  }, [handData.tension, handData.detected]);
+  }, [handData.tension, handData.detected, activeCapture]);
+
+  // Text sequence: cycle the messages, the shape morph animates each change
+  useEffect(() => {
+    if (!isSequencePlaying) return;
+    const messages = textSequence.split(/\n\s*\n/).map((m) => m.trim()).filter(Boolean);
+    if (messages.length === 0) return;
+
+    let index = 0;
+    setCustomText(messages[0]);
+    setActiveShape(ParticleShape.TEXT);
+    if (messages.length === 1) return;
+
+    const interval = setInterval(() => {
+      index = (index + 1) % messages.length;
+      setCustomText(messages[index]);
+    }, sequenceInterval * 1000);
+    return () => clearInterval(interval);
+  }, [isSequencePlaying, textSequence, sequenceInterval]);
+
+  // Keep the URL in sync with the scene so a reload (or a copied address bar) restores it
+  const scene: ScenePreset = {
+    shape: activeShape,
+    color: particleColor,
+    text: customText,
+    count: particleCount,
+    textStyle,
+    rotate: isRotating,
+    coloring,
+  };
+  const sceneQuery = encodeScenePreset(scene);
+  const showQuery = encodeShowConfig(showConfig);
+  useEffect(() => {
+    const { pathname, hash } = window.location;
+    const query = [sceneQuery, showQuery].filter(Boolean).join('&');
+    window.history.replaceState(window.history.state, '', `${pathname}?${query}${hash}`);
+  }, [sceneQuery, showQuery]);
+
+  const applyScenePreset = (preset: ScenePreset) => {
+    setIsSequencePlaying(false);
+    setActiveShape(preset.shape);
+    setParticleColor(preset.color);
+    setCustomText(preset.text);
+    setInputText(preset.text);
+    setParticleCount(preset.count);
+    setTextStyle(preset.textStyle);
+    setIsRotating(preset.rotate);
+    setColoring(preset.coloring);
+  };
+
+  const handleShareScene = async () => {
+    const url = scenePresetUrl(scene);
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 1500);
+    } catch {
+      window.prompt('Copy this link to share the scene:', url);
+    }
+  };
+
+  // Multi-screen show: one channel per window while it is part of a show
+  const isFollower = showConfig.role === 'follower';
+  useEffect(() => {
+    if (showConfig.role === 'solo' || !isShowSupported()) return;
+    const role = showConfig.role;
+
+    const channel = new ShowChannel((message: ShowMessage) => {
+      if (role === 'controller') {
+        if (message.type === 'hello' && showStateRef.current) channel.post({ type: 'state', state: showStateRef.current });
+        return;
+      }
+      switch (message.type) {
+        case 'state': {
+          const { state } = message;
+          setShowEpoch(state.epoch);
+          applyScenePreset(state.scene);
+          setForceMode(state.forceMode);
+          setPostSettings(state.post);
+          // Only a new id is a new burst; resent state must not fire it again
+          setBurst((prev) => (prev?.id === state.burst?.id ? prev : state.burst));
+          break;
+        }
+        case 'hand':
+          setHandData(message.data);
+          break;
+        case 'camera':
+          remoteCameraRef.current = message.camera;
+          cloudRotationRef.current = message.camera.cloudRotation;
+          break;
+      }
+    });
+    setShowChannel(channel);
+    if (role === 'follower') channel.post({ type: 'hello' });
+
+    return () => {
+      channel.close();
+      setShowChannel(null);
+    };
+  }, [showConfig.role]);
 
-  // Handle gestures - switch shapes dynamically
+  // Controller: broadcast scene and effect changes, and every hand update (handleHandState)
+  const showState: ShowState | null =
+    showConfig.role === 'controller' && showEpoch !== null
+      ? { epoch: showEpoch, scene, forceMode, post: postSettings, burst }
+      : null;
+  showStateRef.current = showState;
   useEffect(() => {
-    const gesture = handData.gesture;
-    const specialGestures = ['victory', 'love', 'thumbs_up', 'point'];
+    if (showState) showChannel?.post({ type: 'state', state: showState });
+  }, [showChannel, showConfig.role, showEpoch, sceneQuery, forceMode, postSettings, burst]);
+
+  const handleShowRole = (role: ShowConfig['role']) => {
+    setShowConfig({ ...showConfig, role });
+    if (role === 'controller') setShowEpoch(Date.now());
+  };
+
+  // Followers for the other columns; a popup per click so blockers allow it
+  const openShowWindow = (column: number) => {
+    const query = [sceneQuery, encodeShowConfig({ role: 'follower', column, columns: showConfig.columns })].join('&');
+    window.open(`${window.location.pathname}?${query}`, `kinetic-show-${column}`, 'popup');
+  };
+
+  // Performance governor: adaptive mode walks the tiers, fixed mode pins the best one
+  useEffect(() => {
+    const governor = governorRef.current;
+    governor.adaptive = isAdaptive;
+    governor.targetFps = targetFps;
+    if (!isAdaptive) {
+      governor.setTier(0);
+      setPerfSample((prev) => ({ ...prev, tier: 0 }));
+    }
+  }, [isAdaptive, targetFps]);
+
+  // Persist gesture mapping edits
+  useEffect(() => {
+    saveGestureMapping(gestureMapping);
+  }, [gestureMapping]);
+
+  const applyGestureAction = useCallback((action: GestureAction) => {
+    switch (action.type) {
+      case 'setShape':
+        setActiveShape(action.shape);
+        break;
+      case 'setColor':
+        setParticleColor(action.color);
+        break;
+      case 'setText':
+        setCustomText(action.text);
+        setInputText(action.text);
+        break;
+      case 'burst':
+        setBurst((prev) => ({ id: (prev?.id ?? 0) + 1, strength: action.strength }));
+        break;
+      case 'toggleRotation':
+        setIsRotating((prev) => !prev);
+        break;
+    }
+  }, []);
+
+  // Handle gestures - run the mapped actions for each held gesture
+  useEffect(() => {
+    const gesture = handData.gesture || 'none';
+    const isMapped = (g: GestureType) => g !== 'none' && (gestureMapping[g]?.length ?? 0) > 0;
     
     // If gesture changed
     if (gesture !== currentGesture) {
@@ -51,49 +316,32 @@ const App: React.FC = () => {
         clearTimeout(gestureTimerRef.current);
       }
 
-      // If it's a "special" gesture
-      if (specialGestures.includes(gesture || '')) {
+      // If it's a mapped gesture
+      if (isMapped(gesture)) {
         gestureTimerRef.current = setTimeout(() => {
-          // Save previous state if we are entering a special gesture from a non-special one
-          if (!specialGestures.includes(currentGesture)) {
+          // Save previous state if we are entering a mapped gesture from an unmapped one
+          if (!isMapped(currentGesture)) {
              setPreviousShape(activeShape);
              setPreviousColor(particleColor);
+             setPreviousText(customText);
           }
 
-          setCurrentGesture(gesture as GestureType);
-
-          // Apply effects based on gesture
-          switch (gesture) {
-            case 'victory':
-              setActiveShape(ParticleShape.TEXT);
-              setParticleColor('#ffd700'); // Gold
-              break;
-            case 'love':
-              setActiveShape(ParticleShape.HEART);
-              setParticleColor('#ec4899'); // Pink
-              break;
-            case 'thumbs_up':
-              setActiveShape(ParticleShape.FIREWORKS);
-              setParticleColor('#ef4444'); // Red
-              break;
-            case 'point':
-              setActiveShape(ParticleShape.SATURN);
-              setParticleColor('#06b6d4'); // Cyan
-              break;
-          }
+          setCurrentGesture(gesture);
+          gestureMapping[gesture]?.forEach(applyGestureAction);
         }, 300); // 300ms debounce
-      } else if (specialGestures.includes(currentGesture)) {
-        // If we were in a special gesture and now we are not (none/open/fist)
+      } else if (isMapped(currentGesture)) {
+        // If we were in a mapped gesture and now we are not
         // Wait a bit longer before reverting, to avoid flickering
         gestureTimerRef.current = setTimeout(() => {
           setCurrentGesture('none');
-          // Revert to previous shape and color
+          // Revert to previous shape, color and text
           setActiveShape(previousShape);
           setParticleColor(previousColor);
+          setCustomText(previousText);
         }, 1000);
       } else {
         // Just normal state change (open <-> fist), update immediately or ignore
-        setCurrentGesture(gesture as GestureType);
+        setCurrentGesture(gesture);
       }
     }
     
@@ -102,42 +350,279 @@ const App: React.FC = () => {
         clearTimeout(gestureTimerRef.current);
       }
     };
-  }, [handData.gesture, currentGesture, activeShape, particleColor, previousShape, previousColor]);
+  }, [handData.gesture, currentGesture, activeShape, particleColor, customText, previousShape, previousColor, previousText, gestureMapping, applyGestureAction]);
+
+  // Every hand input (camera, emulation, replay) reports through here
+  const handleHandState = useCallback((data: HandData) => {
+    setHandData(data);
+    if (showConfig.role === 'controller') showChannel?.post({ type: 'hand', data });
+  }, [showConfig.role, showChannel]);
 
   // Handle tracking start/stop
   const handleStartTracking = async () => {
-    if (!videoRef.current) return;
-
-    handTrackingRef.current = new HandTrackingService((state) => {
-      setHandData({
-        tension: state.tension,
-        detected: state.detected,
-        leftHand: state.leftHand,
-        rightHand: state.rightHand,
-        gesture: state.gesture,
-      });
+    if (!videoRef.current || !stageRef.current) return;
+
+    const input = createHandInput(inputKind, handleHandState, {
+      video: videoRef.current,
+      stage: stageRef.current,
+      classifier: classifierRef.current,
+      apiKey: process.env.API_KEY,
     });
+    inputRef.current = input;
+    handTrackingRef.current = input instanceof MediaPipeHandInput ? input.service : null;
 
+    setTrackingError(null);
     try {
-      await handTrackingRef.current.start(videoRef.current);
+      await input.start();
       setIsTracking(true);
     } catch (err) {
-      console.error('Failed to start hand tracking:', err);
-      alert('Failed to start camera. Please allow camera permissions.');
+      console.error('Failed to start hand input:', err);
+      input.stop();
+      inputRef.current = null;
+      handTrackingRef.current = null;
+      if (err instanceof HandTrackingError && err.reason === 'assets') {
+        setTrackingError(`${err.message}. Try the Mouse / Touch or Keyboard input instead.`);
+      } else if (err instanceof HandTrackingError) {
+        setTrackingError(err.message);
+      } else {
+        setTrackingError(
+          inputKind === 'gemini'
+            ? 'Failed to start Gemini vision. Check GEMINI_API_KEY and camera/microphone permissions.'
+            : 'Failed to start camera. Please allow camera permissions.'
+        );
+      }
     }
   };
 
   const handleStopTracking = () => {
-    handTrackingRef.current?.stop();
+    if (isRecordingHands) handleToggleHandRecording();
+    inputRef.current?.stop();
+    inputRef.current = null;
+    handTrackingRef.current = null;
     setIsTracking(false);
-    setHandData({ tension: 0, detected: false, gesture: 'none' });
+    setHandData(NO_HANDS);
     setCurrentGesture('none');
   };
 
-  // Cleanup
+  // Record the HandState stream and download it as JSON when stopped
+  const handleToggleHandRecording = () => {
+    const service = handTrackingRef.current;
+    if (!service) return;
+
+    if (!service.isRecordingStates) {
+      service.startStateRecording();
+      setIsRecordingHands(true);
+      return;
+    }
+
+    const recording = service.stopStateRecording();
+    setIsRecordingHands(false);
+    if (!recording || recording.frames.length === 0) return;
+
+    const blob = new Blob([serializeHandRecording(recording)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `hand-recording-${Date.now()}.json`;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(a.href), 2000); // Revoking right away can cancel the download
+  };
+
+  // Replay a recorded session in place of the camera (loops until stopped)
+  const handleReplayFile = async (file: File) => {
+    try {
+      const recording = parseHandRecording(JSON.parse(await file.text()));
+      replayRef.current?.stop();
+      replayRef.current = new HandReplaySource(handleHandState, recording);
+      replayRef.current.start();
+      setIsReplaying(true);
+    } catch (err) {
+      console.error('Failed to load hand recording:', err);
+      alert(err instanceof Error ? err.message : 'Invalid hand recording');
+    }
+  };
+
+  const handleStopReplay = () => {
+    replayRef.current?.stop();
+    replayRef.current = null;
+    setIsReplaying(false);
+    setCurrentGesture('none');
+  };
+
+  useEffect(() => () => replayRef.current?.stop(), []);
+
+  // Voice control: Gemini Live tool calls run through the same actions as gestures
+  const stopVoice = () => {
+    voiceRef.current?.disconnect();
+    voiceRef.current = null;
+    micStreamRef.current?.getTracks().forEach((track) => track.stop());
+    micStreamRef.current = null;
+    setVoiceStatus('off');
+  };
+
+  const handleToggleVoice = async () => {
+    if (voiceStatus !== 'off') {
+      stopVoice();
+      return;
+    }
+
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      alert('Voice control needs GEMINI_API_KEY in .env.local');
+      return;
+    }
+
+    setVoiceStatus('connecting');
+    try {
+      micStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
+      voiceRef.current = new GeminiLiveService(apiKey, () => {}, applyGestureAction);
+      await voiceRef.current.connect(micStreamRef.current);
+      setVoiceStatus('on');
+    } catch (err) {
+      console.error('Failed to start voice control:', err);
+      alert('Failed to start voice control. Please allow microphone access.');
+      stopVoice();
+    }
+  };
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(() => () => stopVoice(), []);
+
+  // Fixed-timestep export; an active replay restarts and is stepped by the capture clock
+  const handleStartCapture = () => {
+    replayRef.current?.pause();
+    replayRef.current?.rewind();
+    setCaptureProgress(0);
+    setCaptureRun((run) => run + 1);
+    setActiveCapture(captureSettings);
+  };
+
+  const finishCapture = () => {
+    setActiveCapture(null);
+    replayRef.current?.start();
+  };
+
+  const handleCaptureFrame = useCallback((delta: number) => {
+    replayRef.current?.advance(delta * 1000);
+    const target = tensionTargetRef.current;
+    if (target !== null) {
+      setSmoothTension((prev) => smoothTensionStep(prev, target, (delta * 1000) / TENSION_TICK_MS));
+    }
+  }, []);
+
+  const handleCaptureComplete = useCallback((file: Blob, filename: string) => {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(file);
+    a.download = filename;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(a.href), 2000);
+    finishCapture();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCaptureError = useCallback((err: Error) => {
+    console.error('Capture failed:', err);
+    alert(`Capture failed: ${err.message}`);
+    finishCapture();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Record ~2s of landmark samples for a named custom gesture
+  const handleRecordGesture = async (name: string, onProgress: (progress: number) => void) => {
+    if (!handTrackingRef.current) return;
+    const samples = await handTrackingRef.current.recordGesture(60, onProgress);
+    if (samples.length === 0) return;
+    classifierRef.current.addSamples(name, samples);
+    setCustomGestures(classifierRef.current.list());
+  };
+
+  const handleRemoveGesture = (id: CustomGesture) => {
+    classifierRef.current.remove(id);
+    setCustomGestures(classifierRef.current.list());
+  };
+
+  // Load a dropped/uploaded PNG or SVG logo and switch to IMAGE mode
+  const handleImageFile = useCallback(async (file: File) => {
+    if (!file.type.startsWith('image/')) return;
+
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.src = url;
+
+    try {
+      await img.decode();
+      setLogoImage(img);
+      setActiveShape(ParticleShape.IMAGE);
+    } catch (err) {
+      console.error('Failed to load image:', err);
+      alert('Could not read that image. Please use a PNG, JPG or SVG file.');
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }, []);
+
+  // Load a GLB/OBJ mesh and switch to MODEL mode
+  const handleModelFile = useCallback(async (file: File) => {
+    try {
+      const triangles = await loadModelTriangles(file);
+      setModelTriangles(triangles);
+      setModelName(file.name);
+      setActiveShape(ParticleShape.MODEL);
+    } catch (err) {
+      console.error('Failed to load model:', err);
+      alert('Could not read that model. Please use a self-contained GLB or OBJ file.');
+    }
+  }, []);
+
+  // Audio-reactive input: microphone or a looping music file
+  const handleAudioMic = async () => {
+    try {
+      await audioAnalyzerRef.current.startMicrophone();
+      setAudioSource('mic');
+    } catch (err) {
+      console.error('Failed to start microphone:', err);
+      alert('Failed to start microphone. Please allow microphone access.');
+      setAudioSource('off');
+    }
+  };
+
+  const handleAudioFile = async (file: File) => {
+    try {
+      await audioAnalyzerRef.current.startFile(file);
+      setAudioSource('file');
+    } catch (err) {
+      console.error('Failed to play audio file:', err);
+      alert('Could not play that audio file.');
+      audioAnalyzerRef.current.stop();
+      setAudioSource('off');
+    }
+  };
+
+  const handleAudioOff = () => {
+    audioAnalyzerRef.current.stop();
+    setAudioSource('off');
+  };
+
+  useEffect(() => () => audioAnalyzerRef.current.stop(), []);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files?.[0];
+    if (!file) return;
+    if (isModelFile(file)) {
+      handleModelFile(file);
+    } else if (file.type.startsWith('audio/')) {
+      handleAudioFile(file);
+    } else {
+      handleImageFile(file);
+    }
+  };
+
+  // Offline cache registration + cleanup
   useEffect(() => {
+    registerOfflineCache();
     return () => {
-      handTrackingRef.current?.stop();
+      inputRef.current?.stop();
     };
   }, []);
 
@@ -152,8 +637,41 @@ const App: React.FC = () => {
     [ParticleShape.GALAXY]: '🌌',
     [ParticleShape.DNA]: '🧬',
     [ParticleShape.TEXT]: '✌️',
+    [ParticleShape.IMAGE]: '🖼️',
+    [ParticleShape.MODEL]: '🗿',
   };
 
+  // Particle budgets - above ~30k the simulation runs on the GPU
+  const countPresets = [12000, 50000, 100000, 250000, 500000];
+
+  // Export resolutions
+  const resolutionPresets = [
+    { label: '720P', width: 1280, height: 720 },
+    { label: '1080P', width: 1920, height: 1080 },
+    { label: '4K', width: 3840, height: 2160 },
+    { label: 'SQUARE', width: 1080, height: 1080 },
+    { label: 'VERTICAL', width: 1080, height: 1920 },
+  ];
+
+  // Scale the requested budget and effects to the governor's tier (captures always render at full quality,
+  // show windows too since every window must simulate the same particle count)
+  const perfTier = PERFORMANCE_TIERS[activeCapture || showConfig.role !== 'solo' ? 0 : perfSample.tier];
+  const renderCount = Math.max(1000, Math.round((particleCount * perfTier.countScale) / 1000) * 1000);
+  const renderPost: PostSettings =
+    perfTier.postQuality === 'off'
+      ? { ...postSettings, bloom: false, trails: false, chromatic: false, depthOfField: false }
+      : {
+          ...postSettings,
+          quality: POST_QUALITIES[Math.min(POST_QUALITIES.indexOf(postSettings.quality), POST_QUALITIES.indexOf(perfTier.postQuality))],
+        };
+
+  // Pinch point of the primary hand as a force-field cursor (a closed fist doesn't count as a pinch)
+  const cursorHand = handData.right ?? handData.left;
+  const cursor: ForceCursor | null =
+    forceMode !== 'off' && cursorHand && cursorHand.gesture !== 'fist'
+      ? { x: cursorHand.position.x, y: cursorHand.position.y, strength: cursorHand.pinch, mode: forceMode }
+      : null;
+
   // Color presets
   const colorPresets = [
     { color: '#ef4444', name: 'Red' },
@@ -168,21 +686,73 @@ const App: React.FC = () => {
   ];
 
   return (
-    <div className="relative w-full h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black overflow-hidden">
+    <div
+      className="relative w-full h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-black overflow-hidden"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDraggingFile(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
+    >
       {/* 3D Scene */}
-      <div className="absolute inset-0 z-0">
-        <Canvas camera={{ position: [0, 0, 12], fov: 60 }}>
+      <div ref={stageRef} className="absolute inset-0 z-0">
+        <Canvas
+          camera={{ position: [0, 0, 12], fov: 60 }}
+          frameloop={activeCapture ? 'never' : 'always'}
+          dpr={[1, perfTier.maxPixelRatio]}
+        >
           <ambientLight intensity={0.3} />
           <pointLight position={[10, 10, 10]} intensity={0.5} />
           <ParticleSystem 
+            key={captureRun}
             shape={activeShape} 
             color={particleColor} 
+            coloring={coloring}
             tension={smoothTension}
             customText={customText}
+            textStyle={textStyle}
+            image={logoImage}
+            model={modelTriangles}
+            morphDuration={morphDuration}
+            morphEasing={morphEasing}
+            count={renderCount}
+            rotate={isRotating}
+            burst={burst}
+            leftHand={handData.left}
+            rightHand={handData.right}
+            cursor={cursor}
+            audio={audioSource !== 'off' ? { analyzer: audioAnalyzerRef.current, mapping: audioMapping } : null}
+            depthOfField={renderPost.depthOfField}
+            rotationSync={showConfig.role === 'solo' ? null : { rotation: cloudRotationRef, follow: isFollower }}
           />
+          {cursor && <HandCursor cursor={cursor} />}
+          {hasPostEffects(renderPost) && <PostProcessing settings={renderPost} />}
+          {!activeCapture && <PerformanceMonitor governor={governorRef.current} onSample={setPerfSample} />}
+          {!activeCapture && showConfig.role !== 'solo' && (
+            <ShowView
+              config={showConfig}
+              epoch={showEpoch}
+              channel={showChannel}
+              remoteCamera={remoteCameraRef}
+              cloudRotation={cloudRotationRef}
+            />
+          )}
+          {activeCapture && (
+            <FrameCapture
+              settings={activeCapture}
+              onFrame={handleCaptureFrame}
+              onProgress={setCaptureProgress}
+              onComplete={handleCaptureComplete}
+              onError={handleCaptureError}
+            />
+          )}
           <OrbitControls 
+            enabled={!isFollower && !(isTracking && inputKind === 'pointer')}
             enableZoom={true} 
-            autoRotate={!handData.detected} 
+            autoRotate={!isFollower && isRotating && !handData.detected} 
             autoRotateSpeed={0.3}
             minDistance={5}
             maxDistance={25}
@@ -198,8 +768,15 @@ const App: React.FC = () => {
         muted
       />
 
+      {/* Follower windows only render; the controller window has the UI */}
+      {isFollower && (
+        <div className="absolute bottom-4 right-4 z-10 pointer-events-none text-[9px] font-mono text-white/20 uppercase tracking-widest">
+          {showEpoch === null ? 'WAITING_FOR_CONTROLLER' : `FOLLOWER ${showConfig.column + 1}/${showConfig.columns}`}
+        </div>
+      )}
+
       {/* UI Overlay */}
-      <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
+      <div className={`absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6 ${isFollower ? 'hidden' : ''}`}>
         
         {/* Header - Sci-Fi HUD Style */}
         <div className="flex justify-between items-start pointer-events-auto w-full">
@@ -243,21 +820,80 @@ const App: React.FC = () => {
 
           {/* Right: Status Module */}
           <div className="flex flex-col items-end gap-3">
-            {!isTracking ? (
+            {isReplaying ? (
               <button 
-                onClick={handleStartTracking}
-                className="px-6 py-2.5 bg-white text-black font-medium rounded-full hover:bg-gray-200 transition-all shadow-lg shadow-white/10 flex items-center gap-2"
+                onClick={handleStopReplay}
+                className="px-6 py-2.5 bg-amber-500/10 border border-amber-500/20 text-amber-400 font-medium rounded-full hover:bg-amber-500/20 transition-all"
               >
-                <span>Start Experience</span>
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                Stop Replay
               </button>
+            ) : !isTracking ? (
+              <div className="flex items-center gap-2">
+                <select
+                  value={inputKind}
+                  onChange={(e) => setInputKind(e.target.value as typeof inputKind)}
+                  className="px-3 py-2.5 bg-white/5 border border-white/10 text-white/70 text-sm rounded-full focus:outline-none"
+                  aria-label="Hand input source"
+                >
+                  {LIVE_HAND_INPUTS.map((input) => (
+                    <option key={input.kind} value={input.kind} className="bg-gray-900">{input.label}</option>
+                  ))}
+                </select>
+                <button 
+                  onClick={handleStartTracking}
+                  className="px-6 py-2.5 bg-white text-black font-medium rounded-full hover:bg-gray-200 transition-all shadow-lg shadow-white/10 flex items-center gap-2"
+                >
+                  <span>Start Experience</span>
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                </button>
+                <button
+                  onClick={() => replayInputRef.current?.click()}
+                  className="px-4 py-2.5 bg-white/5 border border-white/10 text-white/60 text-sm rounded-full hover:bg-white/10 transition-all"
+                  title="Play back a recorded hand session without a camera"
+                >
+                  Replay
+                </button>
+                <input
+                  ref={replayInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleReplayFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </div>
             ) : (
-              <button 
-                onClick={handleStopTracking}
-                className="px-6 py-2.5 bg-red-500/10 border border-red-500/20 text-red-400 font-medium rounded-full hover:bg-red-500/20 transition-all"
-              >
-                Stop Camera
-              </button>
+              <div className="flex items-center gap-2">
+                {inputKind === 'mediapipe' && (
+                  <button
+                    onClick={handleToggleHandRecording}
+                    className={`px-4 py-2.5 rounded-full text-sm font-medium border transition-all ${isRecordingHands ? 'bg-red-500 text-white border-red-500 animate-pulse' : 'bg-white/5 text-white/60 border-white/10 hover:bg-white/10'}`}
+                    title="Record hand data to a JSON file for replay"
+                  >
+                    {isRecordingHands ? '■ Save Recording' : '● Record'}
+                  </button>
+                )}
+                <button 
+                  onClick={handleStopTracking}
+                  className="px-6 py-2.5 bg-red-500/10 border border-red-500/20 text-red-400 font-medium rounded-full hover:bg-red-500/20 transition-all"
+                >
+                  {inputKind === 'mediapipe' || inputKind === 'gemini' ? 'Stop Camera' : 'Stop Input'}
+                </button>
+              </div>
+            )}
+
+
+            {/* Hand input error */}
+            {trackingError && (
+              <div role="alert" className="max-w-xs px-3 py-2 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300 text-xs flex items-start gap-2">
+                <span className="flex-1">{trackingError}</span>
+                <button onClick={() => setTrackingError(null)} className="text-red-300/60 hover:text-red-200" aria-label="Dismiss error">
+                  ✕
+                </button>
+              </div>
             )}
             
             {/* Status Indicators (Moved to Right) */}
@@ -265,16 +901,16 @@ const App: React.FC = () => {
               <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium transition-colors duration-300
                 ${handData.detected ? 'bg-green-500/20 text-green-400 border border-green-500/30' : 'bg-white/5 text-gray-500 border border-white/10'}`}>
                 <span className={`w-2 h-2 rounded-full ${handData.detected ? 'bg-green-400 animate-pulse' : 'bg-gray-500'}`}></span>
-                {handData.detected ? 'Camera Active' : 'Camera Standby'}
+                {handData.detected ? `${isReplaying ? 'Replay' : LIVE_HAND_INPUTS.find((input) => input.kind === inputKind)?.label} Active` : 'Input Standby'}
               </div>
               
               {/* Hand Indicators */}
               <div className="flex gap-1">
-                <div className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold border transition-all duration-300
+                <div title="Left hand: expansion" className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold border transition-all duration-300
                   ${handData.leftHand ? 'bg-white/20 border-white/40 text-white' : 'bg-black/20 border-white/5 text-gray-600'}`}>
                   L
                 </div>
-                <div className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold border transition-all duration-300
+                <div title="Right hand: rotation / hue" className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-bold border transition-all duration-300
                   ${handData.rightHand ? 'bg-white/20 border-white/40 text-white' : 'bg-black/20 border-white/5 text-gray-600'}`}>
                   R
                 </div>
@@ -286,6 +922,23 @@ const App: React.FC = () => {
         {/* Bottom Controls - Sci-Fi HUD Style */}
         <div className="pointer-events-auto fixed bottom-8 left-1/2 -translate-x-1/2 w-full max-w-xl flex flex-col items-center gap-2 z-50">
           
+          {/* Gesture Mapping Editor */}
+          {isMappingOpen && (
+            <GestureMappingPanel
+              mapping={gestureMapping}
+              onChange={setGestureMapping}
+              onClose={() => setIsMappingOpen(false)}
+              customGestures={customGestures}
+            >
+              <GestureTrainingPanel
+                gestures={customGestures}
+                isTracking={isTracking && inputKind === 'mediapipe'}
+                onRecord={handleRecordGesture}
+                onRemove={handleRemoveGesture}
+              />
+            </GestureMappingPanel>
+          )}
+
           {/* Main Control Unit */}
           <div className="w-full bg-gray-900/90 backdrop-blur-2xl border border-white/10 rounded-2xl overflow-hidden shadow-[0_0_50px_rgba(0,0,0,0.5)] ring-1 ring-white/5">
             
@@ -301,6 +954,7 @@ const App: React.FC = () => {
                   if (e.key === 'Enter') {
                     setCustomText(inputText);
                     setActiveShape(ParticleShape.TEXT);
+                    setIsSequencePlaying(false);
                   }
                 }}
                 className="flex-1 bg-transparent border-none focus:ring-0 text-cyan-100 text-sm font-mono placeholder-cyan-900/50 focus:outline-none uppercase"
@@ -310,6 +964,7 @@ const App: React.FC = () => {
                 onClick={() => {
                   setCustomText(inputText);
                   setActiveShape(ParticleShape.TEXT);
+                  setIsSequencePlaying(false);
                 }}
                 className="px-3 py-1 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-400 text-[10px] font-bold tracking-wider rounded border border-cyan-500/20 hover:border-cyan-500/50 transition-all"
               >
@@ -374,6 +1029,24 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Voice Control Button */}
+                <button
+                  onClick={handleToggleVoice}
+                  className={`h-8 px-3 rounded-lg border flex items-center gap-2 transition-all ${voiceStatus !== 'off' ? 'bg-red-500/10 border-red-500/30 text-red-400' : 'bg-black/40 border-white/5 text-white/40 hover:text-white hover:border-white/10'}`}
+                  title="Say things like &quot;make it a galaxy in gold&quot;"
+                >
+                  <span className={`w-1.5 h-1.5 rounded-full ${voiceStatus === 'on' ? 'bg-red-400 animate-pulse' : voiceStatus === 'connecting' ? 'bg-yellow-400' : 'bg-white/20'}`}></span>
+                  <span className="text-[9px] font-mono uppercase tracking-wider">VOICE</span>
+                </button>
+
+                {/* Gesture Mapping Button */}
+                <button
+                  onClick={() => setIsMappingOpen(!isMappingOpen)}
+                  className={`h-8 px-3 rounded-lg border flex items-center gap-2 transition-all ${isMappingOpen ? 'bg-white/10 border-white/20 text-white' : 'bg-black/40 border-white/5 text-white/40 hover:text-white hover:border-white/10'}`}
+                >
+                  <span className="text-[9px] font-mono uppercase tracking-wider">GESTURES</span>
+                </button>
+
                 {/* Expand Button */}
                 <button
                   onClick={() => setIsPanelOpen(!isPanelOpen)}
@@ -385,7 +1058,7 @@ const App: React.FC = () => {
               </div>
 
               {/* Expandable Area */}
-               <div className={`transition-all duration-300 ease-[cubic-bezier(0.23,1,0.32,1)] overflow-hidden ${isPanelOpen ? 'max-h-20 opacity-100 mt-2' : 'max-h-0 opacity-0'}`}>
+               <div className={`transition-all duration-300 ease-[cubic-bezier(0.23,1,0.32,1)] ${isPanelOpen ? 'max-h-96 overflow-y-auto opacity-100 mt-2' : 'max-h-0 overflow-hidden opacity-0'}`}>
                   <div className="grid grid-cols-4 gap-2 pt-2 border-t border-white/5">
                     {[ParticleShape.SPHERE, ParticleShape.GALAXY, ParticleShape.DNA, ParticleShape.BUDDHA].map((shape, idx) => (
                       <button
@@ -403,6 +1076,440 @@ const App: React.FC = () => {
                       </button>
                     ))}
                   </div>
+
+                  {/* Logo Upload */}
+                  <div className="flex items-center gap-2 mt-2">
+                    <label className="relative flex-1 h-8 rounded flex items-center justify-center gap-2 border border-dashed border-white/10 bg-white/5 text-white/40 hover:text-white hover:border-white/30 transition-all cursor-pointer">
+                      <span className="text-xs">{shapeIcons[ParticleShape.IMAGE]}</span>
+                      <span className="text-[8px] font-mono uppercase tracking-wider">LOAD_LOGO (PNG / SVG)</span>
+                      <input
+                        type="file"
+                        accept="image/png,image/svg+xml,image/jpeg,image/webp"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImageFile(file);
+                          e.target.value = '';
+                        }}
+                        className="opacity-0 absolute inset-0 w-full h-full cursor-pointer"
+                        aria-label="Upload logo image"
+                      />
+                    </label>
+                    {logoImage && (
+                      <button
+                        onClick={() => setActiveShape(ParticleShape.IMAGE)}
+                        className={`h-8 px-3 rounded border text-[8px] font-mono uppercase transition-all ${activeShape === ParticleShape.IMAGE ? 'bg-cyan-500/10 border-cyan-500/30 text-cyan-400' : 'bg-white/5 border-transparent text-white/30 hover:text-white hover:bg-white/10'}`}
+                      >
+                        {ParticleShape.IMAGE}
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Model Upload */}
+                  <div className="flex items-center gap-2 mt-2">
+                    <label className="relative flex-1 h-8 rounded flex items-center justify-center gap-2 border border-dashed border-white/10 bg-white/5 text-white/40 hover:text-white hover:border-white/30 transition-all cursor-pointer">
+                      <span className="text-xs">{shapeIcons[ParticleShape.MODEL]}</span>
+                      <span className="text-[8px] font-mono uppercase tracking-wider truncate">
+                        {modelName ? `MODEL: ${modelName}` : 'LOAD_MODEL (GLB / OBJ)'}
+                      </span>
+                      <input
+                        type="file"
+                        accept=".glb,.gltf,.obj"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleModelFile(file);
+                          e.target.value = '';
+                        }}
+                        className="opacity-0 absolute inset-0 w-full h-full cursor-pointer"
+                        aria-label="Upload 3D model"
+                      />
+                    </label>
+                    {modelTriangles && (
+                      <button
+                        onClick={() => setActiveShape(ParticleShape.MODEL)}
+                        className={`h-8 px-3 rounded border text-[8px] font-mono uppercase transition-all ${activeShape === ParticleShape.MODEL ? 'bg-cyan-500/10 border-cyan-500/30 text-cyan-400' : 'bg-white/5 border-transparent text-white/30 hover:text-white hover:bg-white/10'}`}
+                      >
+                        {ParticleShape.MODEL}
+                      </button>
+                    )}
+                  </div>
+
+                  {/* Morph Settings */}
+                  <div className="flex items-center gap-2 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40">MORPH</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={3}
+                      step={0.1}
+                      value={morphDuration}
+                      onChange={(e) => setMorphDuration(Number(e.target.value))}
+                      className="flex-1 accent-cyan-400"
+                      aria-label="Morph duration"
+                    />
+                    <span className="w-8 text-[8px] font-mono text-cyan-400 text-right">{morphDuration.toFixed(1)}s</span>
+                    <select
+                      value={morphEasing}
+                      onChange={(e) => setMorphEasing(e.target.value as MorphEasing)}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Morph easing"
+                    >
+                      {(Object.keys(MORPH_EASINGS) as MorphEasing[]).map((easing) => (
+                        <option key={easing} value={easing}>{easing}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Audio Reactive */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">AUDIO</span>
+                    <button
+                      onClick={audioSource === 'mic' ? handleAudioOff : handleAudioMic}
+                      className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${audioSource === 'mic' ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                    >
+                      MIC
+                    </button>
+                    <button
+                      onClick={() => (audioSource === 'file' ? handleAudioOff() : audioInputRef.current?.click())}
+                      className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${audioSource === 'file' ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      title="Play a music file (or drop one onto the page)"
+                    >
+                      FILE
+                    </button>
+                    <input
+                      ref={audioInputRef}
+                      type="file"
+                      accept="audio/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleAudioFile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    {(['tension', 'color'] as const).map((target) => (
+                      <select
+                        key={target}
+                        value={audioMapping[target]}
+                        onChange={(e) => setAudioMapping({ ...audioMapping, [target]: e.target.value as AudioBand | 'off' })}
+                        className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                        aria-label={`Audio band driving ${target}`}
+                      >
+                        <option value="off">{target}: off</option>
+                        {AUDIO_BANDS.map((band) => (
+                          <option key={band} value={band}>{target}: {band}</option>
+                        ))}
+                      </select>
+                    ))}
+                    <button
+                      onClick={() => setAudioMapping({ ...audioMapping, burst: !audioMapping.burst })}
+                      className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${audioMapping.burst ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      title="Burst on beats"
+                    >
+                      BEAT
+                    </button>
+                  </div>
+
+                  {/* Scene Presets: gallery + shareable link */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">PRESETS</span>
+                    {SCENE_PRESETS.map(({ name, icon, preset }) => (
+                      <button
+                        key={name}
+                        onClick={() => applyScenePreset(preset)}
+                        className="flex-1 h-5 rounded text-[10px] text-white/60 hover:bg-white/10 border border-transparent transition-all"
+                        title={name}
+                        aria-label={`Load preset ${name}`}
+                      >
+                        {icon}
+                      </button>
+                    ))}
+                    <button
+                      onClick={handleShareScene}
+                      className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${linkCopied ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      title="Copy a link that opens this exact scene"
+                    >
+                      {linkCopied ? 'COPIED' : 'SHARE'}
+                    </button>
+                  </div>
+
+                  {/* Palette: per-particle gradients instead of the single color */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">PALETTE</span>
+                    <select
+                      value={coloring.mode}
+                      onChange={(e) => setColoring({ ...coloring, mode: e.target.value as ColorMode })}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Color mode"
+                    >
+                      {COLOR_MODES.map((mode) => (
+                        <option key={mode} value={mode}>{mode}</option>
+                      ))}
+                    </select>
+                    {PALETTES.map(({ name, stops }) => (
+                      <button
+                        key={name}
+                        onClick={() => setColoring({ ...coloring, palette: stops, mode: coloring.mode === 'solid' ? 'radius' : coloring.mode })}
+                        className={`flex-1 h-4 rounded-sm transition-all duration-200 ${findPalette(coloring.palette)?.name === name && coloring.mode !== 'solid' ? 'ring-1 ring-white' : 'opacity-40 hover:opacity-80'}`}
+                        style={{ backgroundImage: `linear-gradient(to right, ${stops.join(', ')})` }}
+                        title={name}
+                        aria-label={`Select palette ${name}`}
+                      />
+                    ))}
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={coloring.speed}
+                      onChange={(e) => setColoring({ ...coloring, speed: Number(e.target.value) })}
+                      className="w-12 accent-cyan-400"
+                      aria-label="Palette animation speed"
+                      title="Animation speed"
+                    />
+                  </div>
+
+                  {/* Text Layout */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">TEXT</span>
+                    <select
+                      value={textStyle.fontFamily}
+                      onChange={(e) => setTextStyle({ ...textStyle, fontFamily: e.target.value })}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Text font"
+                    >
+                      {TEXT_FONTS.map((font) => (
+                        <option key={font.label} value={font.family}>{font.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={textStyle.fontWeight}
+                      onChange={(e) => setTextStyle({ ...textStyle, fontWeight: Number(e.target.value) })}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Text weight"
+                    >
+                      {[300, 400, 700, 900].map((weight) => (
+                        <option key={weight} value={weight}>{weight}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="range"
+                      min={0}
+                      max={3}
+                      step={0.1}
+                      value={textStyle.depth}
+                      onChange={(e) => setTextStyle({ ...textStyle, depth: Number(e.target.value) })}
+                      className="flex-1 min-w-0 accent-cyan-400"
+                      aria-label="Text depth"
+                      title="Extrude depth"
+                    />
+                    <span className="w-8 text-[8px] font-mono text-cyan-400 text-right">{textStyle.depth.toFixed(1)}</span>
+                  </div>
+
+                  {/* Text Sequence: blank lines separate messages, each may span several lines */}
+                  <div className="flex flex-col gap-1 mt-2 p-2 rounded bg-white/5">
+                    <textarea
+                      value={textSequence}
+                      onChange={(e) => setTextSequence(e.target.value)}
+                      rows={3}
+                      className="w-full bg-black/40 border border-white/10 rounded text-[10px] font-mono text-cyan-100 px-2 py-1 resize-none focus:outline-none"
+                      placeholder="Messages (blank line between each)"
+                      aria-label="Text sequence"
+                    />
+                    <div className="flex items-center gap-1 h-5">
+                      <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">SEQUENCE</span>
+                      <input
+                        type="range"
+                        min={1}
+                        max={10}
+                        step={0.5}
+                        value={sequenceInterval}
+                        onChange={(e) => setSequenceInterval(Number(e.target.value))}
+                        className="flex-1 min-w-0 accent-cyan-400"
+                        aria-label="Seconds per message"
+                      />
+                      <span className="w-8 text-[8px] font-mono text-cyan-400 text-right">{sequenceInterval.toFixed(1)}s</span>
+                      <button
+                        onClick={() => setIsSequencePlaying(!isSequencePlaying)}
+                        className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${isSequencePlaying ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      >
+                        {isSequencePlaying ? 'STOP' : 'PLAY'}
+                      </button>
+                    </div>
+                  </div>
+
+                  {/* Particle Count */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">COUNT</span>
+                    {countPresets.map((preset) => (
+                      <button
+                        key={preset}
+                        onClick={() => setParticleCount(preset)}
+                        className={`flex-1 h-5 rounded text-[8px] font-mono transition-all ${particleCount === preset ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      >
+                        {preset / 1000}K
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Post-processing: bloom, trails, chromatic aberration, depth of field */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">FX</span>
+                    {([['bloom', 'BLOOM'], ['trails', 'TRAILS'], ['chromatic', 'RGB'], ['depthOfField', 'DOF']] as const).map(([effect, label]) => (
+                      <button
+                        key={effect}
+                        onClick={() => setPostSettings({ ...postSettings, [effect]: !postSettings[effect] })}
+                        className={`flex-1 h-5 rounded text-[8px] font-mono transition-all ${postSettings[effect] ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <select
+                      value={postSettings.quality}
+                      onChange={(e) => setPostSettings({ ...postSettings, quality: e.target.value as PostQuality })}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Post-processing quality"
+                    >
+                      {POST_QUALITIES.map((quality) => (
+                        <option key={quality} value={quality}>{quality}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Performance governor */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">PERF</span>
+                    <button
+                      onClick={() => setIsAdaptive(!isAdaptive)}
+                      className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${isAdaptive ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      title="Lower particle count, resolution and effects automatically to hold the target FPS"
+                    >
+                      AUTO
+                    </button>
+                    {[30, 60].map((fps) => (
+                      <button
+                        key={fps}
+                        onClick={() => setTargetFps(fps)}
+                        className={`flex-1 h-5 rounded text-[8px] font-mono transition-all ${targetFps === fps ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      >
+                        {fps} FPS
+                      </button>
+                    ))}
+                    <span className="w-20 text-[8px] font-mono text-cyan-400 text-right uppercase">
+                      {perfTier.name} · {renderCount / 1000}K
+                    </span>
+                  </div>
+
+                  {/* Multi-screen show: this window controls, followers render the other columns */}
+                  {isShowSupported() && (
+                    <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                      <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">SHOW</span>
+                      <button
+                        onClick={() => handleShowRole(showConfig.role === 'controller' ? 'solo' : 'controller')}
+                        className={`h-5 px-2 rounded text-[8px] font-mono transition-all ${showConfig.role === 'controller' ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                        title="Drive other windows of this page as one synchronized wall"
+                      >
+                        HOST
+                      </button>
+                      <select
+                        value={showConfig.columns}
+                        onChange={(e) => {
+                          const columns = Number(e.target.value);
+                          setShowConfig({ ...showConfig, columns, column: Math.min(showConfig.column, columns - 1) });
+                        }}
+                        disabled={showConfig.role !== 'controller'}
+                        className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                        aria-label="Screens"
+                      >
+                        {[1, 2, 3, 4].map((columns) => (
+                          <option key={columns} value={columns}>{columns} SCR</option>
+                        ))}
+                      </select>
+                      {showConfig.role === 'controller' &&
+                        Array.from({ length: showConfig.columns }, (_, column) => column)
+                          .filter((column) => column !== showConfig.column)
+                          .map((column) => (
+                            <button
+                              key={column}
+                              onClick={() => openShowWindow(column)}
+                              className="flex-1 h-5 rounded text-[8px] font-mono text-white/30 hover:text-white hover:bg-white/10 border border-transparent transition-all"
+                              title={`Open the window for screen ${column + 1}`}
+                            >
+                              +{column + 1}
+                            </button>
+                          ))}
+                    </div>
+                  )}
+
+                  {/* Capture: fixed-timestep WebM / PNG sequence export */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">CAPTURE</span>
+                    <select
+                      value={captureSettings.format}
+                      onChange={(e) => setCaptureSettings({ ...captureSettings, format: e.target.value as CaptureFormat })}
+                      disabled={!!activeCapture}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Capture format"
+                    >
+                      <option value="webm">WEBM</option>
+                      <option value="png">PNG ZIP</option>
+                    </select>
+                    <select
+                      value={`${captureSettings.width}x${captureSettings.height}`}
+                      onChange={(e) => {
+                        const [width, height] = e.target.value.split('x').map(Number);
+                        setCaptureSettings({ ...captureSettings, width, height });
+                      }}
+                      disabled={!!activeCapture}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Capture resolution"
+                    >
+                      {resolutionPresets.map((preset) => (
+                        <option key={preset.label} value={`${preset.width}x${preset.height}`}>{preset.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={captureSettings.fps}
+                      onChange={(e) => setCaptureSettings({ ...captureSettings, fps: Number(e.target.value) })}
+                      disabled={!!activeCapture}
+                      className="bg-black/40 border border-white/10 rounded text-[8px] font-mono uppercase text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Capture frame rate"
+                    >
+                      <option value={30}>30FPS</option>
+                      <option value={60}>60FPS</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      max={120}
+                      value={captureSettings.duration}
+                      onChange={(e) => setCaptureSettings({ ...captureSettings, duration: Math.max(1, Math.min(120, Number(e.target.value) || 1)) })}
+                      disabled={!!activeCapture}
+                      className="w-10 bg-black/40 border border-white/10 rounded text-[8px] font-mono text-white/60 px-1 py-0.5 focus:outline-none"
+                      aria-label="Capture duration in seconds"
+                    />
+                    <span className="text-[8px] font-mono text-white/30">S</span>
+                    <button
+                      onClick={handleStartCapture}
+                      disabled={!!activeCapture}
+                      className="flex-1 h-5 rounded text-[8px] font-mono bg-red-500/10 text-red-400 border border-red-500/30 hover:bg-red-500/20 disabled:opacity-60"
+                    >
+                      {activeCapture ? `${Math.round(captureProgress * 100)}%` : '● REC'}
+                    </button>
+                  </div>
+
+                  {/* Hand Cursor Force Field */}
+                  <div className="flex items-center gap-1 mt-2 h-8 px-2 rounded bg-white/5">
+                    <span className="text-[8px] font-mono uppercase tracking-wider text-white/40 mr-1">PINCH</span>
+                    {(['off', ...FORCE_MODES] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setForceMode(mode)}
+                        className={`flex-1 h-5 rounded text-[8px] font-mono uppercase transition-all ${forceMode === mode ? 'bg-cyan-500/10 text-cyan-400 border border-cyan-500/30' : 'text-white/30 hover:text-white hover:bg-white/10 border border-transparent'}`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
                </div>
 
             </div>
@@ -414,7 +1521,11 @@ const App: React.FC = () => {
             {isTracking ? 'SYSTEM_ONLINE' : 'SYSTEM_STANDBY'}
             <span className="mx-1">|</span>
             <span className={currentGesture !== 'none' && currentGesture !== 'open' && currentGesture !== 'fist' ? 'text-cyan-400 animate-pulse font-bold' : ''}>
-              GESTURE: {currentGesture.toUpperCase()}
+              GESTURE: {(isCustomGesture(currentGesture) ? classifierRef.current.nameOf(currentGesture) : currentGesture).toUpperCase()}
+            </span>
+            <span className="mx-1">|</span>
+            <span className={perfSample.tier > 0 ? 'text-amber-400/70' : ''} title="Performance tier · measured FPS">
+              PERF: {perfTier.name.toUpperCase()} · {Math.round(perfSample.fps)} FPS
             </span>
             <span className="mx-1">|</span>
             <span>V.1.0.5</span>
@@ -423,6 +1534,13 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {/* Drop overlay for logo files */}
+      {isDraggingFile && (
+        <div className="absolute inset-4 z-[60] pointer-events-none rounded-2xl border-2 border-dashed border-cyan-400/60 bg-cyan-500/5 flex items-center justify-center">
+          <span className="text-xs font-mono tracking-[0.3em] text-cyan-300 uppercase">DROP_LOGO_MODEL_OR_AUDIO</span>
+        </div>
+      )}
+
       {/* Tension indicator bar at the edges - MORE DRAMATIC */}
       {isTracking && handData.detected && (
         <>
@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /aihtml — "AI 做看得见的小工具" workshop column (for the 2026-07-28 session).
@@ -11,28 +12,6 @@ import React, { useEffect, useMemo, useState } from 'react';
  * All scenarios, prompts and demos here are original, built for this workshop.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ============================ recipes =================================== */
 
 type Cat = 'chart' | 'sheet' | 'drag' | 'effect' | '3d' | 'tool';
@@ -43,13 +22,13 @@ interface Recipe {
   cat: Cat;
   level: Level;
   badge: string;
-  title: T;
-  scene: T;   // 业务场景 / 方法
+  title: LocalizedText;
+  scene: LocalizedText;   // 业务场景 / 方法
   prompt: string;   // the copyable prompt (Chinese — the workshop deliverable)
   demo: string;     // self-contained HTML for the inline preview
   dataTemplate?: string; // sample data to paste into Copilot Chat alongside the prompt
   dataFile?: DataFile;   // downloadable sample .csv so attendees can try immediately
-  teach?: T;        // 讲解要点 — the one line 大雷 says out loud while demoing
+  teach?: LocalizedText;        // 讲解要点 — the one line 大雷 says out loud while demoing
   approx?: boolean; // demo is a canvas approximation of a library-based output
 }
 
@@ -59,9 +38,9 @@ interface Recipe {
  *  `name` is deliberately ASCII: a non-ASCII <a download> filename makes Chromium
  *  drop the name AND the extension, handing the attendee a file called "download".
  *  The Chinese context lives in `desc` instead, right above the filename. */
-interface DataFile { name: string; desc: T; csv: string }
+interface DataFile { name: string; desc: LocalizedText; csv: string }
 
-const CATS: { key: Cat | 'all'; label: T }[] = [
+const CATS: { key: Cat | 'all'; label: LocalizedText }[] = [
   { key: 'all', label: { en: 'All', zh: '全部' } },
   { key: 'chart', label: { en: 'Charts · ECharts/Chart.js', zh: '图表 · ECharts/Chart.js' } },
   { key: 'sheet', label: { en: 'Sheets · SheetJS', zh: '表格 · SheetJS' } },
@@ -71,14 +50,14 @@ const CATS: { key: Cat | 'all'; label: T }[] = [
   { key: 'tool', label: { en: 'Mini tools', zh: '小工具' } },
 ];
 
-const LEVELS: { key: Level | 'all'; label: T; hint: T }[] = [
+const LEVELS: { key: Level | 'all'; label: LocalizedText; hint: LocalizedText }[] = [
   { key: 'all', label: { en: 'All levels', zh: '全部阶段' }, hint: { en: '', zh: '' } },
   { key: 'basic', label: { en: 'Beginner', zh: '初学者' }, hint: { en: 'pure HTML/CSS, copy-run-see', zh: '纯 HTML/CSS，复制即出效果' } },
   { key: 'pro', label: { en: 'Proficient', zh: '精通' }, hint: { en: 'data + interaction, real office tools', zh: '数据 + 交互，能上手的办公工具' } },
   { key: 'expert', label: { en: 'Advanced', zh: '高阶' }, hint: { en: 'canvas / 3D / heatmaps', zh: 'Canvas / 3D / 热力图' } },
 ];
 
-const LEVEL_META: Record<Level, { label: T; color: string }> = {
+const LEVEL_META: Record<Level, { label: LocalizedText; color: string }> = {
   basic: { label: { en: 'Beginner', zh: '初学者' }, color: '#5c8a3a' },
   pro: { label: { en: 'Proficient', zh: '精通' }, color: '#2f6fb0' },
   expert: { label: { en: 'Advanced', zh: '高阶' }, color: '#7a5cab' },
@@ -179,7 +158,7 @@ const RECIPES: Recipe[] = [
     teach: { en: 'Ask the room who has hand-drawn Gantt rectangles in PowerPoint. Then show that the whole chart is five lines of data.', zh: '先问一句「谁在 PPT 里手动拉过甘特图的方块」。然后指着代码说：整张图的数据只有五行。' },
     prompt: '用【单个 HTML 文件】做一个「项目甘特图」：左边一列任务名，右边是两周（14 天）的时间刻度，每个任务用一根带颜色的圆角横条表示，横条的位置和长度由「第几天开始、持续几天」决定；\n再画一条红色竖线表示「今天」，并在条上显示天数。数据写成一个数组，改数组就能改图。纯前端、不引入外部库、不用图表库，存成 .html 双击即用。',
     dataFile: { name: 'project-schedule.csv', desc: { en: '5 tasks · start day, duration, owner', zh: '5 项任务 · 第几天开始 / 做几天 / 负责人' }, csv: '任务,开始第几天,持续天数,负责人\n需求调研,0,3,王芳\n方案设计,2,4,李明\n开发实现,5,6,张伟\n测试验收,10,3,赵丽\n上线复盘,12,2,陈杰' },
-    demo: `<!doctype html><meta charset=utf-8><style>html,body{margin:0;font-family:system-ui;background:#fbfaf6;color:#26231f;padding:12px;box-sizing:border-box;font-size:12px}h3{margin:0 0 10px;font-size:15px}.row{display:flex;align-items:center;margin:5px 0}.nm{width:66px;flex:none;color:#6b655c;font-size:11px}.tr{position:relative;flex:1;height:19px;background:#efe9dd;border-radius:5px}.bar{position:absolute;top:0;height:19px;border-radius:5px;color:#fff;font-size:10px;line-height:19px;text-align:center;white-space:nowrap}.now{position:absolute;top:-4px;bottom:-4px;width:2px;background:#c0392b}.ax{display:flex;margin-top:6px}.ax .nm{width:66px;flex:none}.ax .t{flex:1;display:flex;justify-content:space-between;color:#9a948a;font-size:10px}</style><h3>📊 项目甘特图 · 两周排期</h3><div id=o></div><div class=ax><div class=nm></div><div class=t><span>D1</span><span>D4</span><span>D7</span><span>D10</span><span>D14</span></div></div><div style="margin-top:7px;font-size:10.5px;color:#6b655c"><span style="color:#c0392b">▌</span> 红线 = 今天（第 7 天）</div><script>var T=[['需求调研',0,3,'#2f6fb0'],['方案设计',2,4,'#7a5cab'],['开发实现',5,6,'#5c8a3a'],['测试验收',10,3,'#c2703c'],['上线复盘',12,2,'#8a682c']],TOT=14,NOW=7;document.getElementById('o').innerHTML=T.map(function(t){return'<div class=row><div class=nm>'+t[0]+'</div><div class=tr><div class=bar style="left:'+(t[1]/TOT*100)+'%;width:'+(t[2]/TOT*100)+'%;background:'+t[3]+'">'+t[2]+'d</div><div class=now style="left:'+(NOW/TOT*100)+'%"></div></div></div>'}).join('');</script>`,
+    demo: `<!doctype html><meta charset=utf-8><style>html,body{margin:0;font-family:system-ui;background:#fbfaf6;color:#26231f;padding:12px;box-sizing:border-box;font-size:12px}h3{margin:0 0 10px;font-size:15px}.row{display:flex;align-items:center;margin:5px 0}.nm{width:66px;flex:none;color:#6b655c;font-size:11px}.tr{position:relative;flex:1;height:19px;background:#efe9dd;border-radius:5px}.bar{position:absolute;top:0;height:19px;border-radius:5px;color:#fff;font-size:10px;line-height:19px;text-align:center;white-space:nowrap}.now{position:absolute;top:-4px;bottom:-4px;width:2px;background:#c0392b}.ax{display:flex;margin-top:6px}.ax .nm{width:66px;flex:none}.ax .t{flex:1;display:flex;justify-content:space-between;color:#9a948a;font-size:10px}</style><h3>📊 项目甘特图 · 两周排期</h3><div id=o></div><div class=ax><div class=nm></div><div class=t><span>D1</span><span>D4</span><span>D7</span><span>D10</span><span>D14</span></div></div><div style="margin-top:7px;font-size:10.5px;color:#6b655c"><span style="color:#c0392b">▌</span> 红线 = 今天（第 7 天）</div><script>var LocalizedText=[['需求调研',0,3,'#2f6fb0'],['方案设计',2,4,'#7a5cab'],['开发实现',5,6,'#5c8a3a'],['测试验收',10,3,'#c2703c'],['上线复盘',12,2,'#8a682c']],TOT=14,NOW=7;document.getElementById('o').innerHTML=T.map(function(t){return'<div class=row><div class=nm>'+t[0]+'</div><div class=tr><div class=bar style="left:'+(t[1]/TOT*100)+'%;width:'+(t[2]/TOT*100)+'%;background:'+t[3]+'">'+t[2]+'d</div><div class=now style="left:'+(NOW/TOT*100)+'%"></div></div></div>'}).join('');</script>`,
   },
   {
     id: 'survey', cat: 'chart', level: 'pro', badge: 'JS',
@@ -215,7 +194,7 @@ const RECIPES: Recipe[] = [
     teach: { en: 'Show the data array first, then the picture. The whole lesson is: describe the structure, let the code do the layout.', zh: '先给他们看数据数组，再看图。整节课的道理就一句：你描述结构，布局交给代码。' },
     prompt: '用【单个 HTML 文件】+ 纯 SVG（不引入任何库）做一个「组织架构图」：数据是一个嵌套数组（一位总监下面 3 位经理，每位经理下面 2 位成员，每人有姓名和岗位）；\n代码要自己计算每个节点的坐标 —— 叶子节点均匀铺开，父节点居中在其子节点上方 —— 然后画出圆角方框和连接线。改数据就能改图，不要写死坐标。存成 .html 双击即用。',
     dataFile: { name: 'org-structure.csv', desc: { en: '10 people, 3 levels, reports-to column', zh: '10 人 · 三层结构 · 带「汇报给」列' }, csv: '姓名,岗位,汇报给\n李总,部门总监,\n王芳,项目组,李总\n李明,技术组,李总\n吴强,运营组,李总\n张伟,PM,王芳\n赵丽,BA,王芳\n陈杰,前端,李明\n周敏,后端,李明\n郑洁,数据,吴强\n孙浩,支持,吴强' },
-    demo: `<!doctype html><meta charset=utf-8><style>html,body{margin:0;height:100%;background:#fbfaf6;overflow:hidden}svg{display:block}text{font-family:system-ui}</style><svg id=s width=100% height=100%></svg><script>var T={n:'李总',r:'部门总监',c:[{n:'王芳',r:'项目组',c:[{n:'张伟',r:'PM'},{n:'赵丽',r:'BA'}]},{n:'李明',r:'技术组',c:[{n:'陈杰',r:'前端'},{n:'周敏',r:'后端'}]},{n:'吴强',r:'运营组',c:[{n:'郑洁',r:'数据'},{n:'孙浩',r:'支持'}]}]},s=document.getElementById('s'),W,H,leaf,BW,BH=26,o='',LY=[];function depth(n){return n.c?1+Math.max.apply(null,n.c.map(depth)):0}var D=depth(T);function place(n,d){if(!n.c){n.x=(leaf+0.5)*(W/6);leaf++}else{n.c.forEach(function(k){place(k,d+1)});n.x=(n.c[0].x+n.c[n.c.length-1].x)/2}n.y=LY[d]}function draw(n){if(n.c)n.c.forEach(function(k){o+='<path d="M'+n.x+' '+(n.y+BH)+' V'+(n.y+BH+((k.y-n.y-BH)/2))+' H'+k.x+' V'+k.y+'" fill=none stroke="#c9c2b4" stroke-width=1.2 />';draw(k)});o+='<rect x='+(n.x-BW/2)+' y='+n.y+' width='+BW+' height='+BH+' rx=6 fill="'+(n.c?'#2f6fb0':'#fff')+'" stroke="'+(n.c?'#2f6fb0':'#e2ddd0')+'" /><text x='+n.x+' y='+(n.y+12)+' text-anchor=middle font-size=10 font-weight=600 fill="'+(n.c?'#fff':'#26231f')+'">'+n.n+'</text><text x='+n.x+' y='+(n.y+21)+' text-anchor=middle font-size=8 fill="'+(n.c?'rgba(255,255,255,.8)':'#9a948a')+'">'+n.r+'</text>'}function render(){W=innerWidth||document.documentElement.clientWidth||320;H=innerHeight||document.documentElement.clientHeight||220;BW=Math.min(62,W/8);LY=[];for(var i=0;i<=D;i++)LY.push(14+i*((H-40)/D));leaf=0;o='';place(T,0);draw(T);s.innerHTML=o}render();onload=render;onresize=render;</script>`,
+    demo: `<!doctype html><meta charset=utf-8><style>html,body{margin:0;height:100%;background:#fbfaf6;overflow:hidden}svg{display:block}text{font-family:system-ui}</style><svg id=s width=100% height=100%></svg><script>var LocalizedText={n:'李总',r:'部门总监',c:[{n:'王芳',r:'项目组',c:[{n:'张伟',r:'PM'},{n:'赵丽',r:'BA'}]},{n:'李明',r:'技术组',c:[{n:'陈杰',r:'前端'},{n:'周敏',r:'后端'}]},{n:'吴强',r:'运营组',c:[{n:'郑洁',r:'数据'},{n:'孙浩',r:'支持'}]}]},s=document.getElementById('s'),W,H,leaf,BW,BH=26,o='',LY=[];function depth(n){return n.c?1+Math.max.apply(null,n.c.map(depth)):0}var D=depth(LocalizedText);function place(n,d){if(!n.c){n.x=(leaf+0.5)*(W/6);leaf++}else{n.c.forEach(function(k){place(k,d+1)});n.x=(n.c[0].x+n.c[n.c.length-1].x)/2}n.y=LY[d]}function draw(n){if(n.c)n.c.forEach(function(k){o+='<path d="M'+n.x+' '+(n.y+BH)+' V'+(n.y+BH+((k.y-n.y-BH)/2))+' H'+k.x+' V'+k.y+'" fill=none stroke="#c9c2b4" stroke-width=1.2 />';draw(k)});o+='<rect x='+(n.x-BW/2)+' y='+n.y+' width='+BW+' height='+BH+' rx=6 fill="'+(n.c?'#2f6fb0':'#fff')+'" stroke="'+(n.c?'#2f6fb0':'#e2ddd0')+'" /><text x='+n.x+' y='+(n.y+12)+' text-anchor=middle font-size=10 font-weight=600 fill="'+(n.c?'#fff':'#26231f')+'">'+n.n+'</text><text x='+n.x+' y='+(n.y+21)+' text-anchor=middle font-size=8 fill="'+(n.c?'rgba(255,255,255,.8)':'#9a948a')+'">'+n.r+'</text>'}function render(){W=innerWidth||document.documentElement.clientWidth||320;H=innerHeight||document.documentElement.clientHeight||220;BW=Math.min(62,W/8);LY=[];for(var i=0;i<=D;i++)LY.push(14+i*((H-40)/D));leaf=0;o='';place(LocalizedText,0);draw(LocalizedText);s.innerHTML=o}render();onload=render;onresize=render;</script>`,
   },
   {
     id: 'wordcloud', cat: 'effect', level: 'expert', badge: 'Canvas',
@@ -414,10 +393,7 @@ const openFullscreen = (html: string) => {
 interface Props { onHome: () => void }
 
 const AIHtmlLab: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   const [cat, setCat] = useState<Cat | 'all'>('all');
   const [level, setLevel] = useState<Level | 'all'>('all');
@@ -445,8 +421,6 @@ const AIHtmlLab: React.FC<Props> = ({ onHome }) => {
     }).catch(() => {});
   };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   const badgeColor: Record<Cat, string> = {
     chart: '#2f6fb0', sheet: '#5c8a3a', drag: '#2b8a8a', effect: '#c2703c', '3d': '#7a5cab', tool: '#8a682c',
   };
@@ -512,7 +486,7 @@ const AIHtmlLab: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Workshop · 07·28</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
             </div>
@@ -1,39 +1,12 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { MODELS, REF_MODEL, TESTS, Model, BenchTest, Result, LocalizedText } from './data/bench';
+import { LANGUAGES, useI18n } from '../i18n';
 
 interface Props {
   onHome: () => void;
 }
 
 /* ---- i18n (same pattern as the homepage: EN default, 简, 繁 via OpenCC) ---- */
-type Lang = 'en' | 'zh' | 'zhHant';
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => {
-      alive = false;
-    };
-  }, [active, conv]);
-  return conv;
-};
 
 const ALL_MODELS: Model[] = [REF_MODEL, ...MODELS];
 const modelById = new Map(ALL_MODELS.map((m) => [m.id, m]));
@@ -266,12 +239,7 @@ const Bench: React.FC<Props> = ({ onHome }) => {
   const [cat, setCat] = useState('all');
   const [msg, setMsg] = useState('');
   const [open, setOpen] = useState<{ test: BenchTest; r: Result } | null>(null);
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => {
-    if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang);
-  }, [lang]);
+  const { lang, setLang, t } = useI18n();
   useEffect(() => {
     const id = window.location.hash.slice(1);
     if (!id) return;
@@ -291,12 +259,6 @@ const Bench: React.FC<Props> = ({ onHome }) => {
     }
   };
 
-  const LANGS: { code: Lang; label: string }[] = [
-    { code: 'en', label: 'EN' },
-    { code: 'zh', label: '简' },
-    { code: 'zhHant', label: '繁' },
-  ];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -305,7 +267,7 @@ const Bench: React.FC<Props> = ({ onHome }) => {
             <div className="flex items-center gap-3">
               <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">AI Benchmark</span>
               <div className="flex overflow-hidden rounded-full border border-ink/15">
-                {LANGS.map((l) => (
+                {LANGUAGES.map((l) => (
                   <button
                     key={l.code}
                     onClick={() => setLang(l.code)}
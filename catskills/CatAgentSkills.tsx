@@ -126,7 +126,12 @@ const CatAgentSkills: React.FC<Props> = ({ onHome }) => {
   const [tag, setTag] = useState('');
   const [sort, setSort] = useState<SortMode>('newest');
   const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
-  const [selected, setSelected] = useState<CatSkillRecord | null>(null);
+  // ?skill=<slug> opens that skill's detail dialog, so a shared link lands on it
+  const [selected, setSelected] = useState<CatSkillRecord | null>(() => {
+    if (typeof window === 'undefined') return null;
+    const slug = new URLSearchParams(window.location.search).get('skill');
+    return CAT_SKILLS.find((item) => item.slug === slug) ?? null;
+  });
   const [preview, setPreview] = useState<PreviewState>({ status: 'idle', text: '' });
   const [copiedPrompt, setCopiedPrompt] = useState('');
   const [theme, setTheme] = useState<'light' | 'dark'>(() =>
@@ -191,6 +196,13 @@ const CatAgentSkills: React.FC<Props> = ({ onHome }) => {
     };
   }, [selected]);
 
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (selected) url.searchParams.set('skill', selected.slug);
+    else url.searchParams.delete('skill');
+    window.history.replaceState({}, '', `${url.pathname}${url.search}${url.hash}`);
+  }, [selected]);
+
   useEffect(() => {
     if (!selected) {
       setPreview({ status: 'idle', text: '' });
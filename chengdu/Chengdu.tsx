@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /chengdu — a July business-trip field guide to Chengdu, anchored on Taikoo
@@ -10,27 +11,7 @@ import React, { useEffect, useState } from 'react';
  * shown with a July 21 departure as the worked example. Bilingual.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface LocalizedText { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
 const CHECK_KEY = 'dalei-chengdu-check-v1';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
 
 /* ---------- prepare-ahead checklist (D = departure day) ---------- */
 
@@ -145,10 +126,7 @@ const ITINERARY: Slot[] = [
 interface Props { onHome: () => void }
 
 const Chengdu: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   // checklist state persists across visits — tick things off as the trip nears
   const [done, setDone] = useState<Record<string, boolean>>(() => {
@@ -164,8 +142,6 @@ const Chengdu: React.FC<Props> = ({ onHome }) => {
   };
   const doneCount = PREP.filter((p) => done[p.id]).length;
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -174,7 +150,7 @@ const Chengdu: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Chengdu Guide</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
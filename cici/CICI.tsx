@@ -1,6 +1,7 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { CICI_DATASETS, CICI_METHOD, HALO_META, LocalizedText } from './data';
 import type { City, Dataset } from './data';
+import { LANGUAGES, useI18n } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /cici — the Comparatively-Insignificant City Index. A for-fun ranking of
@@ -12,26 +13,6 @@ import type { City, Dataset } from './data';
  * podium cards and list rows alike. Bilingual (繁 on the fly), paper/ink/gold.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 type T = (txt: LocalizedText) => string;
 
 /* ---------- stacked score bar: population extent → fame subtracted → CICI ---------- */
@@ -126,12 +107,10 @@ const PodiumCard: React.FC<{
 interface Props { onHome: () => void }
 
 const CICI: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t: T = (txt) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
-  const [country, setCountry] = useState<string>('cn');
+  // Japanese visitors land on the Japan run
+  const [country, setCountry] = useState<string>(() => (lang === 'ja' ? 'jp' : 'cn'));
   const ds = CICI_DATASETS.find((d) => d.key === country) ?? CICI_DATASETS[0];
   const cities = ds.cities;
   const [open, setOpen] = useState<number | null>(1); // #1 expanded by default
@@ -140,8 +119,6 @@ const CICI: React.FC<Props> = ({ onHome }) => {
   const rest = useMemo(() => cities.slice(3), [cities]);
   const openPodium = podium.find((c) => c.rank === open);
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -150,7 +127,7 @@ const CICI: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">CICI Index</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
@@ -1,3 +1,5 @@
+import type { LocalizedText } from '../i18n';
+
 /* ---------------------------------------------------------------------------
  * CICI dataset — the Comparatively-Insignificant City Index applied to China's
  * prefecture-level cities. Produced by running the `cici-index` skill
@@ -12,7 +14,7 @@
  * relative to its size."
  * ------------------------------------------------------------------------- */
 
-export interface LocalizedText { en: string; zh: string }
+export type { LocalizedText };
 
 /** Halo factor keys — each buys a city some national name-recognition we subtract. */
 export type HaloFactor =
@@ -216,7 +218,7 @@ export const CICI_CITIES: City[] = [
  */
 export const CICI_CITIES_JP: City[] = [
   {
-    rank: 1, name: { en: 'Saitama', zh: '埼玉市 (さいたま)' }, region: { en: 'Saitama', zh: '埼玉县' },
+    rank: 1, name: { en: 'Saitama', zh: '埼玉市 (さいたま)', ja: 'さいたま市' }, region: { en: 'Saitama', zh: '埼玉县', ja: '埼玉県' },
     huji: 132, changzhu: 132, popScore: 100, famePenalty: 32, cici: 68,
     halo: [
       { factor: 'capital', weight: 16, note: { en: 'Prefectural capital, a designated city — but merged together only in 2001, with a thin distinct identity.', zh: '埼玉县首府、政令指定都市 —— 但 2001 年才合并而成,自身辨识度很薄。' } },
@@ -227,7 +229,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'Famous, ironically, for a movie about how it has nothing famous.', zh: '讽刺的是,它最出名的是一部讲「它没什么出名的」的电影。' },
   },
   {
-    rank: 2, name: { en: 'Sagamihara', zh: '相模原市' }, region: { en: 'Kanagawa', zh: '神奈川县' },
+    rank: 2, name: { en: 'Sagamihara', zh: '相模原市', ja: '相模原市' }, region: { en: 'Kanagawa', zh: '神奈川县', ja: '神奈川県' },
     huji: 72, changzhu: 72, popScore: 55, famePenalty: 9, cici: 46,
     halo: [
       { factor: 'other', weight: 6, note: { en: 'JAXA’s Sagamihara campus — home of the Hayabusa asteroid missions.', zh: 'JAXA 相模原园区 —— 隼鸟号小行星探测任务的大本营。' } },
@@ -236,7 +238,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'One of Japan’s 20 designated cities — and probably the one nobody can picture.', zh: '日本仅 20 座政令指定都市之一 —— 也大概是最没画面感的那座。' },
   },
   {
-    rank: 3, name: { en: 'Kawaguchi', zh: '川口市' }, region: { en: 'Saitama', zh: '埼玉县' },
+    rank: 3, name: { en: 'Kawaguchi', zh: '川口市', ja: '川口市' }, region: { en: 'Saitama', zh: '埼玉县', ja: '埼玉県' },
     huji: 60, changzhu: 60, popScore: 45, famePenalty: 8, cici: 37,
     halo: [
       { factor: 'history', weight: 4, note: { en: 'Old cast-iron foundry town; the classic 1962 film "Foundry Town".', zh: '老铸造之乡,经典电影《有炼炉的街》(1962)。' } },
@@ -245,7 +247,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'A dense Tokyo-orbit city best known, if at all, for its old foundries.', zh: '一座紧邻东京的高密度城市,若说印象,也就剩老铸造厂。' },
   },
   {
-    rank: 4, name: { en: 'Funabashi', zh: '船桥市' }, region: { en: 'Chiba', zh: '千叶县' },
+    rank: 4, name: { en: 'Funabashi', zh: '船桥市', ja: '船橋市' }, region: { en: 'Chiba', zh: '千叶县', ja: '千葉県' },
     huji: 64, changzhu: 64, popScore: 48, famePenalty: 16, cici: 32,
     halo: [
       { factor: 'meme', weight: 10, note: { en: 'Funassyi — the wildly viral unofficial pear mascot — is from here.', zh: '船梨精(ふなっしー)—— 红遍全国的非官方梨子吉祥物 —— 就出自这里。' } },
@@ -255,7 +257,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'A commuter city that a screaming pear mascot put on the map.', zh: '一座被尖叫梨子吉祥物带火的通勤城市。' },
   },
   {
-    rank: 5, name: { en: 'Hachiōji', zh: '八王子市' }, region: { en: 'Tokyo', zh: '东京都' },
+    rank: 5, name: { en: 'Hachiōji', zh: '八王子市', ja: '八王子市' }, region: { en: 'Tokyo', zh: '东京都', ja: '東京都' },
     huji: 58, changzhu: 58, popScore: 44, famePenalty: 13, cici: 31,
     halo: [
       { factor: 'scenic', weight: 6, note: { en: 'Mt. Takao — a Michelin-starred day hike — sits within the city.', zh: '高尾山(米其林三星级徒步地)就在市内。' } },
@@ -265,7 +267,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'Tokyo’s big western suburb — carried mostly by Mt. Takao.', zh: '东京西部的大郊区 —— 主要靠高尾山撑门面。' },
   },
   {
-    rank: 6, name: { en: 'Ichikawa', zh: '市川市' }, region: { en: 'Chiba', zh: '千叶县' },
+    rank: 6, name: { en: 'Ichikawa', zh: '市川市', ja: '市川市' }, region: { en: 'Chiba', zh: '千叶县', ja: '千葉県' },
     huji: 49, changzhu: 49, popScore: 37, famePenalty: 8, cici: 29,
     halo: [
       { factor: 'history', weight: 3, note: { en: 'Nakayama Hokekyo-ji temple; a setting in the "Eight Dog Chronicles".', zh: '中山法华经寺、《南总里见八犬传》的舞台之一。' } },
@@ -275,7 +277,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'A quiet, bookish Tokyo-edge suburb most people just pass through.', zh: '一座安静、书卷气的东京边缘睡城,多数人只是路过。' },
   },
   {
-    rank: 7, name: { en: 'Kashiwa', zh: '柏市' }, region: { en: 'Chiba', zh: '千叶县' },
+    rank: 7, name: { en: 'Kashiwa', zh: '柏市', ja: '柏市' }, region: { en: 'Chiba', zh: '千叶县', ja: '千葉県' },
     huji: 43, changzhu: 43, popScore: 33, famePenalty: 9, cici: 24,
     halo: [
       { factor: 'other', weight: 6, note: { en: 'A youth street-fashion scene ("Kashiwa" style); the Kashiwa-no-ha smart city.', zh: '青年街头潮流(「柏」系)、柏之叶智慧城市。' } },
@@ -284,7 +286,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'A commuter hub with a surprisingly big youth-fashion reputation — locally.', zh: '一个通勤枢纽,却有着(限于本地的)不小的青年潮流名声。' },
   },
   {
-    rank: 8, name: { en: 'Higashiōsaka', zh: '东大阪市' }, region: { en: 'Osaka', zh: '大阪府' },
+    rank: 8, name: { en: 'Higashiōsaka', zh: '东大阪市', ja: '東大阪市' }, region: { en: 'Osaka', zh: '大阪府', ja: '大阪府' },
     huji: 49, changzhu: 49, popScore: 37, famePenalty: 14, cici: 23,
     halo: [
       { factor: 'other', weight: 6, note: { en: 'Japan’s densest cluster of small precision factories — "monozukuri" capital.', zh: '日本中小精密工厂最密集之地 ——「制造之城」。' } },
@@ -294,7 +296,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'The workshop of Osaka — thousands of tiny factories, one famous rugby pitch.', zh: '大阪的车间 —— 数千家小工厂,和一座著名的橄榄球场。' },
   },
   {
-    rank: 9, name: { en: 'Amagasaki', zh: '尼崎市' }, region: { en: 'Hyogo', zh: '兵库县' },
+    rank: 9, name: { en: 'Amagasaki', zh: '尼崎市', ja: '尼崎市' }, region: { en: 'Hyogo', zh: '兵库县', ja: '兵庫県' },
     huji: 46, changzhu: 46, popScore: 35, famePenalty: 14, cici: 21,
     halo: [
       { factor: 'meme', weight: 8, note: { en: 'A gritty, working-class "rough town" image — a recurring pop-culture shorthand.', zh: '粗粝的工人阶级「硬核小城」形象 —— 流行文化里反复出现的符号。' } },
@@ -304,7 +306,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'Better known for an attitude than for anything you’d visit.', zh: '它出名的是一种「气质」,而不是什么值得一游的地方。' },
   },
   {
-    rank: 10, name: { en: 'Toyonaka', zh: '丰中市' }, region: { en: 'Osaka', zh: '大阪府' },
+    rank: 10, name: { en: 'Toyonaka', zh: '丰中市', ja: '豊中市' }, region: { en: 'Osaka', zh: '大阪府', ja: '大阪府' },
     huji: 40, changzhu: 40, popScore: 30, famePenalty: 10, cici: 20,
     halo: [
       { factor: 'scenic', weight: 5, note: { en: 'Part of Osaka (Itami) Airport; Hattori Ryokuchi park.', zh: '大阪(伊丹)机场部分位于此、服部绿地公园。' } },
@@ -314,7 +316,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'A tidy Osaka suburb whose airport and university outshine the city itself.', zh: '一座规整的大阪郊区,机场和大学的名气都盖过了城市本身。' },
   },
   {
-    rank: 11, name: { en: 'Kōriyama', zh: '郡山市' }, region: { en: 'Fukushima', zh: '福岛县' },
+    rank: 11, name: { en: 'Kōriyama', zh: '郡山市', ja: '郡山市' }, region: { en: 'Fukushima', zh: '福岛县', ja: '福島県' },
     huji: 32, changzhu: 32, popScore: 24, famePenalty: 8, cici: 16,
     halo: [
       { factor: 'other', weight: 4, note: { en: 'A commercial hub; a proud choral-music town ("the Vienna of Tohoku").', zh: '商业枢纽、以合唱闻名的城市(「东北的维也纳」)。' } },
@@ -324,7 +326,7 @@ export const CICI_CITIES_JP: City[] = [
     knownFor: { en: 'Fukushima’s commercial engine — busier than it is famous.', zh: '福岛的商业引擎 —— 忙碌程度远超它的名气。' },
   },
   {
-    rank: 12, name: { en: 'Kasugai', zh: '春日井市' }, region: { en: 'Aichi', zh: '爱知县' },
+    rank: 12, name: { en: 'Kasugai', zh: '春日井市', ja: '春日井市' }, region: { en: 'Aichi', zh: '爱知县', ja: '愛知県' },
     huji: 31, changzhu: 31, popScore: 23, famePenalty: 9, cici: 14,
     halo: [
       { factor: 'cuisine', weight: 4, note: { en: 'Japan’s cactus-cultivation capital — a genuinely odd claim to fame.', zh: '日本仙人掌栽培之都 —— 一个货真价实的冷门名号。' } },
@@ -350,7 +352,7 @@ export interface Dataset {
 
 export const CICI_DATASETS: Dataset[] = [
   {
-    key: 'cn', flag: '🇨🇳', country: { en: 'China', zh: '中国' },
+    key: 'cn', flag: '🇨🇳', country: { en: 'China', zh: '中国', ja: '中国', ko: '중국' },
     blurb: {
       en: 'Prefecture-level cities, scored on registered household population minus every source of fame.',
       zh: '地级市,按户籍人口减去一切名气来源打分。',
@@ -359,13 +361,14 @@ export const CICI_DATASETS: Dataset[] = [
     regTag: { en: 'reg.', zh: '户籍' }, showResident: true, cities: CICI_CITIES,
   },
   {
-    key: 'jp', flag: '🇯🇵', country: { en: 'Japan', zh: '日本' },
+    key: 'jp', flag: '🇯🇵', country: { en: 'Japan', zh: '日本', ja: '日本', ko: '일본' },
     blurb: {
       en: 'Municipalities, scored the same way. Japanese cities cluster in size, so fame — not population — decides it.',
       zh: '市町村,用同样的方式打分。日本城市体量接近,所以决定名次的是名气,而非人口。',
+      ja: '市町村を同じ方法で採点。日本の都市は規模が近いので、順位を決めるのは人口ではなく知名度です。',
     },
-    regLabel: { en: 'registered', zh: '住民登记' }, residentLabel: { en: 'census', zh: '国势调查' },
-    regTag: { en: 'pop.', zh: '人口' }, showResident: false, cities: CICI_CITIES_JP,
+    regLabel: { en: 'registered', zh: '住民登记', ja: '住民基本台帳' }, residentLabel: { en: 'census', zh: '国势调查', ja: '国勢調査' },
+    regTag: { en: 'pop.', zh: '人口', ja: '人口' }, showResident: false, cities: CICI_CITIES_JP,
   },
 ];
 
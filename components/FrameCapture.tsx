@@ -0,0 +1,162 @@
+import React, { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { createZip, ZIP_MAX_ENTRIES, ZipEntry } from '../services/zipWriter';
+
+export type CaptureFormat = 'webm' | 'png';
+
+export interface CaptureSettings {
+  format: CaptureFormat;
+  width: number;
+  height: number;
+  fps: number;
+  duration: number; // Seconds
+}
+
+interface FrameCaptureProps {
+  settings: CaptureSettings;
+  onFrame?: (delta: number) => void; // Step other time-based inputs (e.g. hand replay) in lockstep
+  onProgress: (progress: number) => void;
+  onComplete: (file: Blob, filename: string) => void;
+  onError: (error: Error) => void;
+}
+
+// PNG frames stay in memory until the zip is built; stop well before the browser runs out
+const MAX_PNG_SEQUENCE_BYTES = 2 * 1024 ** 3;
+
+const nextAnimationFrame = () => new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+
+const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) return reject(new Error('Failed to encode PNG frame'));
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/png');
+  });
+
+const pickWebmType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/**
+ * Renders the scene frame by frame at a fixed timestep and encodes the result.
+ * Mount it inside the Canvas while the Canvas runs with frameloop="never"; the
+ * clock then only moves through advance(), so every capture sees the same times.
+ * PNG frames are encoded as fast as possible, WebM is paced in real time because
+ * MediaRecorder timestamps frames by wall clock.
+ */
+export const FrameCapture: React.FC<FrameCaptureProps> = ({ settings, onFrame, onProgress, onComplete, onError }) => {
+  const get = useThree((state) => state.get);
+
+  useEffect(() => {
+    const { gl, camera, advance } = get();
+    const { format, width, height, fps, duration } = settings;
+    const totalFrames = Math.max(1, Math.round(duration * fps));
+    let cancelled = false;
+
+    // Render at the requested resolution without touching R3F's size state
+    const previousSize = gl.getSize(new THREE.Vector2());
+    const previousPixelRatio = gl.getPixelRatio();
+    const perspective = camera instanceof THREE.PerspectiveCamera ? camera : null;
+    const previousAspect = perspective?.aspect ?? 1;
+    gl.setPixelRatio(1);
+    gl.setSize(width, height, false);
+    if (perspective) {
+      perspective.aspect = width / height;
+      perspective.updateProjectionMatrix();
+    }
+
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+    const ctx = frameCanvas.getContext('2d')!;
+
+    const restore = () => {
+      gl.setPixelRatio(previousPixelRatio);
+      gl.setSize(previousSize.x, previousSize.y, false);
+      if (perspective) {
+        perspective.aspect = previousAspect;
+        perspective.updateProjectionMatrix();
+      }
+    };
+
+    // advance() derives delta from clock.elapsedTime, which still holds whatever the
+    // live loop left there - start from zero so frame 0 gets delta 0 every time
+    const { clock } = get();
+    clock.elapsedTime = 0;
+    clock.oldTime = 0;
+
+    // Draw right after rendering - the WebGL buffer isn't preserved past this task
+    const renderFrame = async (index: number) => {
+      onFrame?.(index === 0 ? 0 : 1 / fps);
+      await nextAnimationFrame(); // Let React apply state from onFrame first
+      advance(index / fps);
+      ctx.drawImage(gl.domElement, 0, 0, width, height);
+    };
+
+    const capturePng = async () => {
+      if (totalFrames > ZIP_MAX_ENTRIES) {
+        throw new Error(`A PNG sequence is limited to ${ZIP_MAX_ENTRIES} frames - shorten it or record WebM`);
+      }
+      const entries: ZipEntry[] = [];
+      let bytes = 0;
+      for (let i = 0; i < totalFrames && !cancelled; i++) {
+        await renderFrame(i);
+        const data = await canvasToPng(frameCanvas);
+        bytes += data.length;
+        if (bytes > MAX_PNG_SEQUENCE_BYTES) {
+          throw new Error(`PNG sequence passed 2 GB after ${i + 1} frames - lower the resolution, shorten it or record WebM`);
+        }
+        entries.push({ name: `frame_${String(i).padStart(5, '0')}.png`, data });
+        onProgress((i + 1) / totalFrames);
+      }
+      return createZip(entries);
+    };
+
+    const captureWebm = async () => {
+      const stream = frameCanvas.captureStream(0);
+      const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      const mimeType = pickWebmType();
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 16_000_000 });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => e.data.size > 0 && chunks.push(e.data);
+      const stopped = new Promise<void>((resolve) => (recorder.onstop = () => resolve()));
+
+      recorder.start();
+      const startedAt = performance.now();
+      for (let i = 0; i < totalFrames && !cancelled; i++) {
+        await renderFrame(i);
+        track.requestFrame();
+        onProgress((i + 1) / totalFrames);
+
+        const wait = startedAt + ((i + 1) * 1000) / fps - performance.now();
+        if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+      recorder.stop();
+      await stopped;
+      stream.getTracks().forEach((t) => t.stop());
+      return new Blob(chunks, { type: mimeType || 'video/webm' });
+    };
+
+    (async () => {
+      try {
+        const file = format === 'png' ? await capturePng() : await captureWebm();
+        if (!cancelled) {
+          const extension = format === 'png' ? 'zip' : 'webm';
+          onComplete(file, `kinetic-particles-${width}x${height}-${fps}fps.${extension}`);
+        }
+      } catch (err) {
+        if (!cancelled) onError(err instanceof Error ? err : new Error(String(err)));
+      } finally {
+        restore();
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // One capture per mount; the parent remounts to start another
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return null;
+};
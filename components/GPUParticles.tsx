@@ -0,0 +1,586 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { MorphEngine, MorphEasing } from '../services/morphEngine';
+import {
+  applyAudio,
+  applyCloudRotation,
+  AudioReactive,
+  BurstTrigger,
+  cloudGlow,
+  COLOR_MODES,
+  createForceField,
+  createParticleDynamics,
+  FORCE_MODES,
+  FORCE_RADIUS,
+  ForceCursor,
+  HEIGHT_RANGE,
+  MAX_PALETTE_STOPS,
+  ParticleColoring,
+  RADIUS_RANGE,
+  resolvePalette,
+  RotationSync,
+  stepParticleDynamics,
+  syncCloudRotation,
+  triggerBurst,
+  updateForceField,
+  VELOCITY_RANGE,
+} from './particleDynamics';
+import {
+  createDepthOfFieldUniforms,
+  DOF_FRAGMENT_PARS,
+  DOF_VERTEX,
+  DOF_VERTEX_PARS,
+  updateDepthOfField,
+} from './PostProcessing';
+
+interface GPUParticlesProps {
+  shapePositions: Float32Array; // xyz per particle, already generated for the active shape
+  count: number;
+  color: string;
+  tension: number;
+  isTextMode: boolean;
+  morphDuration: number;
+  morphEasing: MorphEasing;
+  rotate: boolean;
+  burst: BurstTrigger | null;
+  steer: number; // Extra yaw speed (rad/s) from the right hand
+  cursor: ForceCursor | null;
+  audio: AudioReactive | null;
+  coloring: ParticleColoring;
+  sourceColors: Float32Array; // Linear RGB per particle, sampled from the TEXT/IMAGE source
+  depthOfField: boolean;
+  rotationSync: RotationSync | null;
+}
+
+// Ping-pong simulation needs float render targets (WebGL2 + EXT_color_buffer_float)
+export const supportsGPGPU = (gl: THREE.WebGLRenderer): boolean =>
+  gl.capabilities.isWebGL2 &&
+  gl.capabilities.maxVertexTextures > 0 &&
+  gl.extensions.has('EXT_color_buffer_float');
+
+// ========================================
+// SIMULATION SHADERS
+// ========================================
+// Same effect chain as the CPU loop in ParticleSystem, evaluated per texel.
+// All three passes read last frame's textures, so position and explosion
+// recompute this frame's values inline instead of lagging a frame behind.
+const SIMULATION_COMMON = /* glsl */ `
+  uniform sampler2D tRestFrom;
+  uniform sampler2D tRestTo;
+  uniform float uMorph;
+  uniform float uCount;
+  uniform float uTime;
+  uniform float uTension;
+  uniform float uTensionVelocity;
+  uniform float uBurst;
+  uniform float uShockwave;
+  uniform float uExplosionPhase;
+  uniform float uMorphSpeed;
+  uniform float uTextMode;
+  uniform vec3 uForceCenter;
+  uniform vec3 uForceAxis;
+  uniform float uForceStrength;
+  uniform float uForceMode; // Index into FORCE_MODES: attract, repel, vortex
+
+  float hash(float n) {
+    return fract(sin(n) * 43758.5453123);
+  }
+
+  float particleIndex() {
+    return floor(gl_FragCoord.y) * resolution.x + floor(gl_FragCoord.x);
+  }
+
+  vec3 restPosition(vec2 uv) {
+    return mix(texture2D(tRestFrom, uv).xyz, texture2D(tRestTo, uv).xyz, uMorph);
+  }
+
+  vec3 burstDirection(vec3 rest, float dist, float i) {
+    if (dist > 0.01) return rest / dist;
+    return vec3(hash(i) - 0.5, hash(i + 1.3) - 0.5, hash(i + 2.7) - 0.5);
+  }
+
+  // Same falloff and modes as forceOffset() in particleDynamics
+  vec3 forceOffset(vec3 position) {
+    vec3 offset = position - uForceCenter;
+    float dist = length(offset);
+    if (uForceStrength <= 0.0 || dist >= ${FORCE_RADIUS.toFixed(1)}) return vec3(0.0);
+
+    float falloff = pow(1.0 - dist / ${FORCE_RADIUS.toFixed(1)}, 2.0) * uForceStrength;
+    vec3 dir = dist > 0.001 ? offset / dist : vec3(0.0);
+    if (uForceMode < 0.5) return -offset * falloff;
+    if (uForceMode < 1.5) return dir * falloff * ${FORCE_RADIUS.toFixed(1)};
+    return cross(uForceAxis, dir) * falloff * ${FORCE_RADIUS.toFixed(1)};
+  }
+
+  vec3 nextExplosion(vec2 uv, vec3 rest, float i) {
+    vec3 explosion = texture2D(textureExplosion, uv).xyz;
+    if (uTextMode > 0.5) return explosion;
+
+    float dist = length(rest);
+    vec3 dir = burstDirection(rest, dist, i);
+    float strength = uBurst * (0.8 + dist / 5.0 * 0.5);
+    if (uBurst > 1.0) {
+      explosion += dir * strength * 0.3;
+    }
+    return explosion * 0.95;
+  }
+
+  vec3 nextVelocity(vec2 uv, vec3 rest, float i, vec3 explosion) {
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    if (uTextMode > 0.5) return velocity;
+
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    float dist = length(rest);
+    float normalizedDist = dist / 5.0;
+    vec3 dir = burstDirection(rest, dist, i);
+
+    // 1. Scale
+    float scaleEase = 1.0 - pow(uTension, 0.7);
+    float scaleFactor = 0.15 + (3.5 - 0.15) * scaleEase;
+
+    // 2. Explosion burst
+    float explosionStrength = uBurst * (0.8 + normalizedDist * 0.5);
+    float particlePhase = (i / uCount) * 6.28318530718;
+    float explosionWave = sin(particlePhase + uTime * 10.0) * 0.3 + 1.0;
+
+    // 3. Shockwave
+    float shockwaveDist = abs(dist - uShockwave);
+    float shockwaveEffect = shockwaveDist < 1.5 ? (1.5 - shockwaveDist) / 1.5 * uBurst * 0.8 : 0.0;
+
+    // 4. Breathing
+    float breatheFreq = 1.5 + uTension * 3.0;
+    float breatheAmp = (1.0 - uTension) * 0.5;
+    float breathe = 1.0 + sin(uTime * breatheFreq + dist * 0.8 + i * 0.0005) * breatheAmp;
+
+    // 5. Chaos
+    float chaosIntensity = pow(uTension, 2.0) * 1.2;
+    float chaosFreq = 15.0 + uTension * 25.0;
+    vec3 chaos = vec3(
+      sin(uTime * chaosFreq + i * 0.37),
+      cos(uTime * chaosFreq * 1.17 + i * 0.53),
+      sin(uTime * chaosFreq * 0.83 + i * 0.71)
+    ) * chaosIntensity;
+
+    // 6. Vortex
+    float vortexStrength = abs(uTensionVelocity) * 1.5;
+    float vortexAngle = uTime * 5.0 + normalizedDist * 3.0 + i * 0.003;
+    vec3 vortex = vec3(
+      cos(vortexAngle) * vortexStrength * normalizedDist,
+      sin(uTime * 3.0 + dist) * vortexStrength * 0.5,
+      sin(vortexAngle) * vortexStrength * normalizedDist
+    );
+
+    // 7. Ripples
+    float ripple = 0.0;
+    for (int r = 0; r < 3; r++) {
+      float ripplePhase = mod(uTime * 6.0 + float(r) * 2.0, 10.0);
+      float rippleDist = abs(dist - ripplePhase);
+      if (rippleDist < 0.8) {
+        ripple += (0.8 - rippleDist) / 0.8 * 0.15 * (1.0 - uTension);
+      }
+    }
+
+    // 8. Firework scatter
+    float scatterAngle = i * 2.39996;
+    float scatterRadius = uExplosionPhase * (1.0 + sin(i * 0.1) * 0.5);
+    vec3 scatter = vec3(
+      cos(scatterAngle) * sin(i * 0.5),
+      sin(scatterAngle) * cos(i * 0.3),
+      cos(i * 0.7)
+    ) * scatterRadius;
+
+    // 9. Compression pulse
+    float compressionPulse = uTension > 0.8 ? sin(uTime * 20.0) * 0.1 * uTension : 0.0;
+
+    vec3 target = rest * scaleFactor * breathe * (1.0 + compressionPulse);
+    target += dir * (explosionStrength * explosionWave + shockwaveEffect) + chaos + vortex + scatter;
+    target.y += ripple;
+    target += explosion;
+
+    // 10. Hand cursor
+    target += forceOffset(position);
+
+    float particleMorphSpeed = uMorphSpeed * (0.8 + sin(i * 0.1) * 0.4);
+    return velocity * 0.75 + (target - position) * particleMorphSpeed;
+  }
+`;
+
+const EXPLOSION_SHADER = /* glsl */ `
+  ${SIMULATION_COMMON}
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    float i = particleIndex();
+    gl_FragColor = vec4(nextExplosion(uv, restPosition(uv), i), 1.0);
+  }
+`;
+
+const VELOCITY_SHADER = /* glsl */ `
+  ${SIMULATION_COMMON}
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    float i = particleIndex();
+    vec3 rest = restPosition(uv);
+    gl_FragColor = vec4(nextVelocity(uv, rest, i, nextExplosion(uv, rest, i)), 1.0);
+  }
+`;
+
+const POSITION_SHADER = /* glsl */ `
+  ${SIMULATION_COMMON}
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    float i = particleIndex();
+    vec3 rest = restPosition(uv);
+    vec3 position = texture2D(texturePosition, uv).xyz;
+
+    if (uTextMode > 0.5) {
+      // Gentle floating text, same as the CPU text mode
+      float wave = sin(uTime * 1.5 + i * 0.001) * 0.02;
+      position += (rest + vec3(0.0, wave, 0.0) - position) * 0.15;
+    } else {
+      position += nextVelocity(uv, rest, i, nextExplosion(uv, rest, i));
+    }
+    gl_FragColor = vec4(position, 1.0);
+  }
+`;
+
+// ========================================
+// RENDER SHADERS
+// ========================================
+// Per-particle color mirrors writeParticleColors() in particleDynamics
+const POINTS_VERTEX_SHADER = /* glsl */ `
+  uniform sampler2D texturePosition;
+  uniform sampler2D textureVelocity;
+  uniform sampler2D tRestFrom;
+  uniform sampler2D tRestTo;
+  uniform sampler2D tSourceColor;
+  uniform float uMorph;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec3 uColor;
+  uniform vec3 uPalette[${MAX_PALETTE_STOPS}];
+  uniform float uPaletteSize;
+  uniform float uPaletteOffset;
+  uniform float uColorMode; // Index into COLOR_MODES: solid, radius, height, velocity, source
+  attribute vec2 reference;
+  varying vec3 vColor;
+  ${DOF_VERTEX_PARS}
+
+  // Ping-pong lookup, same as samplePalette()
+  vec3 samplePalette(float t) {
+    float f = mod(t, 2.0);
+    if (f > 1.0) f = 2.0 - f;
+    f *= uPaletteSize - 1.0;
+    float lower = floor(f);
+    float upper = min(lower + 1.0, uPaletteSize - 1.0);
+    vec3 a = uPalette[0];
+    vec3 b = uPalette[0];
+    for (int k = 0; k < ${MAX_PALETTE_STOPS}; k++) {
+      if (float(k) == lower) a = uPalette[k];
+      if (float(k) == upper) b = uPalette[k];
+    }
+    return mix(a, b, f - lower);
+  }
+
+  vec3 particleColor() {
+    if (uColorMode < 0.5) return uColor;
+    if (uColorMode > 3.5) {
+      vec3 source = texture2D(tSourceColor, reference).rgb;
+      float brightest = max(source.r, max(source.g, source.b));
+      float saturation = brightest - min(source.r, min(source.g, source.b));
+      return mix(uColor * brightest, source, min(saturation * 4.0, 1.0));
+    }
+
+    vec3 rest = mix(texture2D(tRestFrom, reference).xyz, texture2D(tRestTo, reference).xyz, uMorph);
+    float t;
+    if (uColorMode < 1.5) t = length(rest) / ${RADIUS_RANGE.toFixed(1)};
+    else if (uColorMode < 2.5) t = rest.y / ${HEIGHT_RANGE.toFixed(1)} + 0.5;
+    else t = length(texture2D(textureVelocity, reference).xyz) / ${VELOCITY_RANGE.toFixed(1)};
+    return samplePalette(clamp(t, 0.0, 1.0) + uPaletteOffset);
+  }
+
+  void main() {
+    vec3 pos = texture2D(texturePosition, reference).xyz;
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+    vColor = particleColor();
+    ${DOF_VERTEX}
+  }
+`;
+
+const POINTS_FRAGMENT_SHADER = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+  ${DOF_FRAGMENT_PARS}
+
+  void main() {
+    gl_FragColor = vec4(vColor, uOpacity * dofAlpha());
+    #include <colorspace_fragment>
+  }
+`;
+
+// Copy xyz triplets into an RGBA float texture
+const writeTexture = (texture: THREE.DataTexture, xyz: Float32Array, count: number) => {
+  const data = texture.image.data as Float32Array;
+  for (let i = 0; i < count; i++) {
+    data[i * 4] = xyz[i * 3];
+    data[i * 4 + 1] = xyz[i * 3 + 1];
+    data[i * 4 + 2] = xyz[i * 3 + 2];
+    data[i * 4 + 3] = 1;
+  }
+  texture.needsUpdate = true;
+};
+
+const readTexture = (texture: THREE.DataTexture, count: number): Float32Array => {
+  const data = texture.image.data as Float32Array;
+  const xyz = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    xyz[i * 3] = data[i * 4];
+    xyz[i * 3 + 1] = data[i * 4 + 1];
+    xyz[i * 3 + 2] = data[i * 4 + 2];
+  }
+  return xyz;
+};
+
+export const GPUParticles: React.FC<GPUParticlesProps> = ({
+  shapePositions,
+  count,
+  color,
+  tension: inputTension,
+  isTextMode,
+  morphDuration,
+  morphEasing,
+  rotate,
+  burst,
+  steer,
+  cursor,
+  audio,
+  coloring,
+  sourceColors,
+  depthOfField,
+  rotationSync,
+}) => {
+  const gl = useThree((state) => state.gl);
+  const pointsRef = useRef<THREE.Points>(null);
+  const dynamics = useRef(createParticleDynamics(inputTension));
+  const forceField = useMemo(createForceField, []);
+  const palette = useMemo<THREE.Color[]>(() => [], []);
+  const dof = useMemo(createDepthOfFieldUniforms, []);
+
+  useEffect(() => {
+    if (burst) triggerBurst(dynamics.current, burst.strength);
+  }, [burst]);
+  const morphRef = useRef(new MorphEngine());
+  const morphBlend = useRef(1);
+  const drawingBufferSize = useMemo(() => new THREE.Vector2(), []);
+
+  // Square texture holding one texel per particle
+  const textureSize = Math.max(1, Math.ceil(Math.sqrt(count)));
+
+  const simulation = useMemo(() => {
+    const compute = new GPUComputationRenderer(textureSize, textureSize, gl);
+
+    const initialPosition = compute.createTexture();
+    writeTexture(initialPosition, shapePositions, count);
+
+    const restFrom = compute.createTexture();
+    const restTo = compute.createTexture();
+    writeTexture(restFrom, shapePositions, count);
+    writeTexture(restTo, shapePositions, count);
+
+    const sourceColor = compute.createTexture();
+    writeTexture(sourceColor, sourceColors, count);
+
+    const positionVariable = compute.addVariable('texturePosition', POSITION_SHADER, initialPosition);
+    const velocityVariable = compute.addVariable('textureVelocity', VELOCITY_SHADER, compute.createTexture());
+    const explosionVariable = compute.addVariable('textureExplosion', EXPLOSION_SHADER, compute.createTexture());
+    const variables = [positionVariable, velocityVariable, explosionVariable];
+    variables.forEach((variable) => compute.setVariableDependencies(variable, variables));
+
+    // One uniform object shared by all passes so each value is set once per frame
+    const uniforms: Record<string, THREE.IUniform> = {
+      tRestFrom: { value: restFrom },
+      tRestTo: { value: restTo },
+      uMorph: { value: 1 },
+      uCount: { value: count },
+      uTime: { value: 0 },
+      uTension: { value: inputTension },
+      uTensionVelocity: { value: 0 },
+      uBurst: { value: 0 },
+      uShockwave: { value: 0 },
+      uExplosionPhase: { value: 0 },
+      uMorphSpeed: { value: 0 },
+      uTextMode: { value: 0 },
+      uForceCenter: { value: new THREE.Vector3() },
+      uForceAxis: { value: new THREE.Vector3(0, 0, -1) },
+      uForceStrength: { value: 0 },
+      uForceMode: { value: 0 },
+    };
+    variables.forEach((variable) => Object.assign(variable.material.uniforms, uniforms));
+
+    const error = compute.init();
+    if (error !== null) {
+      console.error('GPGPU init failed:', error);
+    }
+
+    return { compute, positionVariable, velocityVariable, restFrom, restTo, sourceColor, uniforms };
+    // Rebuilt only when the particle budget changes; shape changes morph via textures
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gl, count, textureSize]);
+
+  useEffect(() => {
+    return () => {
+      simulation.compute.dispose();
+      simulation.restFrom.dispose();
+      simulation.restTo.dispose();
+      simulation.sourceColor.dispose();
+    };
+  }, [simulation]);
+
+  // Points sample their position from the simulation texture via a per-vertex reference uv
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    const references = new Float32Array(count * 2);
+    for (let i = 0; i < count; i++) {
+      references[i * 2] = ((i % textureSize) + 0.5) / textureSize;
+      references[i * 2 + 1] = (Math.floor(i / textureSize) + 0.5) / textureSize;
+    }
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    g.setAttribute('reference', new THREE.BufferAttribute(references, 2));
+    return g;
+  }, [count, textureSize]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const material = useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        uniforms: {
+          texturePosition: { value: null },
+          textureVelocity: { value: null },
+          tRestFrom: { value: null },
+          tRestTo: { value: null },
+          tSourceColor: { value: null },
+          uMorph: { value: 1 },
+          uSize: { value: 0.05 },
+          uScale: { value: 1 },
+          uColor: { value: new THREE.Color(color) },
+          uPalette: { value: Array.from({ length: MAX_PALETTE_STOPS }, () => new THREE.Color()) },
+          uPaletteSize: { value: 1 },
+          uPaletteOffset: { value: 0 },
+          uColorMode: { value: 0 },
+          uOpacity: { value: 0.9 },
+          ...dof,
+        },
+        vertexShader: POINTS_VERTEX_SHADER,
+        fragmentShader: POINTS_FRAGMENT_SHADER,
+        depthWrite: false,
+        blending: THREE.AdditiveBlending,
+        transparent: true,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Morph the rest positions to each new shape: pair on the CPU once, blend in the shader
+  const uploadedShapeRef = useRef(shapePositions);
+  useEffect(() => {
+    if (uploadedShapeRef.current === shapePositions) return;
+    uploadedShapeRef.current = shapePositions;
+
+    const { restFrom, restTo, sourceColor } = simulation;
+    writeTexture(sourceColor, sourceColors, count); // Colors switch at the start of the morph
+    const from = readTexture(restFrom, count);
+    const to = readTexture(restTo, count);
+    const e = morphBlend.current;
+    for (let i = 0; i < from.length; i++) {
+      from[i] += (to[i] - from[i]) * e;
+    }
+
+    const morph = morphRef.current;
+    morph.start(from, shapePositions, morphDuration, morphEasing);
+    writeTexture(restFrom, morph.source!, count);
+    writeTexture(restTo, morph.target!, count);
+    morphBlend.current = 0;
+    // Duration/easing only apply to the next switch, they don't restart a morph
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shapePositions, simulation, count]);
+
+  useFrame((state, delta) => {
+    if (!pointsRef.current) return;
+
+    const time = state.clock.elapsedTime;
+    const d = dynamics.current;
+    const { compute, positionVariable, velocityVariable, uniforms } = simulation;
+    const { tension, hueShift } = applyAudio(d, audio, inputTension);
+    (material.uniforms.uColor.value as THREE.Color).set(color).offsetHSL(hueShift, 0, 0);
+    resolvePalette(coloring.palette, hueShift, palette);
+    const paletteUniform = material.uniforms.uPalette.value as THREE.Color[];
+    palette.forEach((stop, i) => paletteUniform[i].copy(stop));
+    material.uniforms.uPaletteSize.value = palette.length;
+    material.uniforms.uPaletteOffset.value = time * coloring.speed;
+    material.uniforms.uColorMode.value = COLOR_MODES.indexOf(coloring.mode);
+    updateDepthOfField(dof, depthOfField, state.camera, pointsRef.current);
+
+    const morph = morphRef.current;
+    if (morph.isActive) {
+      morphBlend.current = morph.advance(delta);
+      if (morph.progress >= 1) morph.stop();
+    }
+
+    uniforms.uMorph.value = morphBlend.current;
+    uniforms.uTime.value = time;
+    uniforms.uTextMode.value = isTextMode ? 1 : 0;
+    uniforms.uTension.value = tension;
+
+    if (!isTextMode) {
+      uniforms.uMorphSpeed.value = stepParticleDynamics(d, tension, delta);
+      uniforms.uTensionVelocity.value = d.tensionVelocity;
+      uniforms.uBurst.value = d.burstEnergy;
+      uniforms.uShockwave.value = d.shockwaveRadius;
+      uniforms.uExplosionPhase.value = d.explosionPhase;
+
+      updateForceField(forceField, cursor, state.camera, pointsRef.current);
+      (uniforms.uForceCenter.value as THREE.Vector3).copy(forceField.center);
+      (uniforms.uForceAxis.value as THREE.Vector3).copy(forceField.axis);
+      uniforms.uForceStrength.value = forceField.strength;
+      uniforms.uForceMode.value = FORCE_MODES.indexOf(forceField.mode);
+    }
+
+    compute.compute();
+
+    material.uniforms.texturePosition.value = compute.getCurrentRenderTarget(positionVariable).texture;
+    material.uniforms.textureVelocity.value = compute.getCurrentRenderTarget(velocityVariable).texture;
+    material.uniforms.tRestFrom.value = simulation.restFrom;
+    material.uniforms.tRestTo.value = simulation.restTo;
+    material.uniforms.tSourceColor.value = simulation.sourceColor;
+    material.uniforms.uMorph.value = morphBlend.current;
+    state.gl.getDrawingBufferSize(drawingBufferSize);
+    material.uniforms.uScale.value = drawingBufferSize.y * 0.5;
+
+    if (isTextMode) {
+      // Very slow rotation, bright clear particles
+      if (rotate) pointsRef.current.rotation.y += delta * 0.03;
+      pointsRef.current.rotation.y += delta * steer;
+      pointsRef.current.rotation.x = 0;
+      pointsRef.current.rotation.z = 0;
+      syncCloudRotation(pointsRef.current, rotationSync);
+      material.uniforms.uOpacity.value = 1.0;
+      material.uniforms.uSize.value = 0.07;
+      return;
+    }
+
+    applyCloudRotation(pointsRef.current, d, tension, delta, time, rotate);
+    pointsRef.current.rotation.y += delta * steer;
+    syncCloudRotation(pointsRef.current, rotationSync);
+    const glow = cloudGlow(d, tension, time);
+    material.uniforms.uOpacity.value = glow.opacity;
+    material.uniforms.uSize.value = glow.size;
+  });
+
+  return <points ref={pointsRef} geometry={geometry} material={material} frustumCulled={false} />;
+};
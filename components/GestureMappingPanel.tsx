@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import { GestureType, ParticleShape } from '../types';
+import {
+  ACTION_TYPES,
+  DEFAULT_GESTURE_MAPPING,
+  GestureAction,
+  GestureActionType,
+  GestureMapping,
+  MAPPABLE_GESTURES,
+  createAction,
+  exportGestureMapping,
+  gestureIcon,
+  parseGestureMapping,
+} from '../services/gestureMapping';
+import { CustomGestureDefinition } from '../services/gestureClassifier';
+
+interface GestureMappingPanelProps {
+  mapping: GestureMapping;
+  onChange: (mapping: GestureMapping) => void;
+  onClose: () => void;
+  customGestures?: CustomGestureDefinition[];
+  children?: React.ReactNode; // Extra sections rendered above the preset footer
+}
+
+const ACTION_LABELS: Record<GestureActionType, string> = {
+  setShape: 'SHAPE',
+  setColor: 'COLOR',
+  setText: 'TEXT',
+  burst: 'BURST',
+  toggleRotation: 'ROTATE',
+};
+
+const fieldClass =
+  'bg-black/40 border border-white/10 rounded text-[9px] font-mono text-white/70 px-1 py-0.5 focus:outline-none focus:border-cyan-500/50';
+
+// Parameter editor for a single action
+const ActionParams: React.FC<{ action: GestureAction; onChange: (action: GestureAction) => void }> = ({ action, onChange }) => {
+  switch (action.type) {
+    case 'setShape':
+      return (
+        <select
+          value={action.shape}
+          onChange={(e) => onChange({ ...action, shape: e.target.value as ParticleShape })}
+          className={`${fieldClass} flex-1`}
+          aria-label="Shape"
+        >
+          {Object.values(ParticleShape).map((shape) => (
+            <option key={shape} value={shape}>{shape}</option>
+          ))}
+        </select>
+      );
+    case 'setColor':
+      return (
+        <div className="flex-1 flex items-center gap-1">
+          <input
+            type="color"
+            value={action.color}
+            onChange={(e) => onChange({ ...action, color: e.target.value })}
+            className="w-6 h-5 bg-transparent border-none cursor-pointer"
+            aria-label="Color"
+          />
+          <span className="text-[9px] font-mono text-white/40">{action.color}</span>
+        </div>
+      );
+    case 'setText':
+      return (
+        <input
+          type="text"
+          value={action.text}
+          onChange={(e) => onChange({ ...action, text: e.target.value })}
+          className={`${fieldClass} flex-1 min-w-0`}
+          aria-label="Text"
+        />
+      );
+    case 'burst':
+      return (
+        <div className="flex-1 flex items-center gap-1">
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.1}
+            value={action.strength}
+            onChange={(e) => onChange({ ...action, strength: Number(e.target.value) })}
+            className="flex-1 accent-cyan-400"
+            aria-label="Burst strength"
+          />
+          <span className="w-6 text-[9px] font-mono text-cyan-400 text-right">{action.strength.toFixed(1)}</span>
+        </div>
+      );
+    case 'toggleRotation':
+      return <span className="flex-1 text-[9px] font-mono text-white/30">ON ⇄ OFF</span>;
+  }
+};
+
+export const GestureMappingPanel: React.FC<GestureMappingPanelProps> = ({ mapping, onChange, onClose, customGestures = [], children }) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows: { gesture: GestureType; label: string }[] = [
+    ...MAPPABLE_GESTURES.map((gesture) => ({ gesture, label: gesture as string })),
+    ...customGestures.map((g) => ({ gesture: g.id, label: g.name })),
+  ];
+
+  const updateActions = (gesture: GestureType, actions: GestureAction[]) => {
+    onChange({ ...mapping, [gesture]: actions });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportGestureMapping(mapping)], { type: 'application/json' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = 'gesture-mapping.json';
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(a.href), 2000);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(parseGestureMapping(JSON.parse(await file.text())));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid mapping file');
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900/95 backdrop-blur-2xl border border-white/10 rounded-2xl overflow-hidden shadow-[0_0_50px_rgba(0,0,0,0.5)] ring-1 ring-white/5">
+      {/* Header */}
+      <div className="bg-black/40 border-b border-white/5 p-3 flex items-center gap-3">
+        <div className="w-2 h-2 rounded-full bg-cyan-500 shadow-[0_0_10px_rgba(6,182,212,0.5)]"></div>
+        <span className="flex-1 text-[10px] font-mono text-cyan-500/70 tracking-widest">GESTURE_MAP</span>
+        <button onClick={onClose} className="text-white/40 hover:text-white text-xs" aria-label="Close gesture mapping">
+          ✕
+        </button>
+      </div>
+
+      {/* Gesture rows */}
+      <div className="max-h-[50vh] overflow-y-auto p-3 flex flex-col gap-2">
+        {rows.map(({ gesture, label }) => {
+          const actions = mapping[gesture] ?? [];
+          return (
+            <div key={gesture} className="rounded-lg bg-black/20 border border-white/5 p-2 flex flex-col gap-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm">{gestureIcon(gesture)}</span>
+                <span className="flex-1 text-[9px] font-mono uppercase tracking-widest text-white/60">{label}</span>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    if (!e.target.value) return;
+                    updateActions(gesture, [...actions, createAction(e.target.value as GestureActionType)]);
+                  }}
+                  className={fieldClass}
+                  aria-label={`Add action to ${label}`}
+                >
+                  <option value="">+ ACTION</option>
+                  {ACTION_TYPES.map((type) => (
+                    <option key={type} value={type}>{ACTION_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+
+              {actions.map((action, idx) => (
+                <div key={idx} className="flex items-center gap-2 pl-6">
+                  <span className="w-12 text-[8px] font-mono text-cyan-400/70">{ACTION_LABELS[action.type]}</span>
+                  <ActionParams
+                    action={action}
+                    onChange={(next) => updateActions(gesture, actions.map((a, i) => (i === idx ? next : a)))}
+                  />
+                  <button
+                    onClick={() => updateActions(gesture, actions.filter((_, i) => i !== idx))}
+                    className="text-white/30 hover:text-red-400 text-[10px]"
+                    aria-label="Remove action"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {children}
+
+      {/* Footer: presets */}
+      <div className="border-t border-white/5 p-3 flex items-center gap-2">
+        <button
+          onClick={handleExport}
+          className="px-3 py-1 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-400 text-[9px] font-bold tracking-wider rounded border border-cyan-500/20"
+        >
+          EXPORT
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 bg-white/5 hover:bg-white/10 text-white/60 text-[9px] font-bold tracking-wider rounded border border-white/10"
+        >
+          IMPORT
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => onChange(DEFAULT_GESTURE_MAPPING)}
+          className="px-3 py-1 text-white/30 hover:text-white text-[9px] font-bold tracking-wider"
+        >
+          RESET
+        </button>
+        {error && <span className="flex-1 text-right text-[9px] font-mono text-red-400 truncate">{error}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { CustomGesture } from '../types';
+import { CustomGestureDefinition } from '../services/gestureClassifier';
+import { CUSTOM_GESTURE_ICON } from '../services/gestureMapping';
+
+interface GestureTrainingPanelProps {
+  gestures: CustomGestureDefinition[];
+  isTracking: boolean;
+  onRecord: (name: string, onProgress: (progress: number) => void) => Promise<void>;
+  onRemove: (id: CustomGesture) => void;
+}
+
+// Name a pose, hold it in front of the camera while samples are captured, repeat to refine
+export const GestureTrainingPanel: React.FC<GestureTrainingPanelProps> = ({ gestures, isTracking, onRecord, onRemove }) => {
+  const [name, setName] = useState('');
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleRecord = async () => {
+    if (!name.trim() || progress !== null) return;
+    setProgress(0);
+    try {
+      await onRecord(name, setProgress);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="border-t border-white/5 p-3 flex flex-col gap-2">
+      <span className="text-[9px] font-mono text-white/40 tracking-widest">CUSTOM_GESTURES</span>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleRecord()}
+          placeholder="POSE NAME"
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded text-[9px] font-mono text-white/70 px-2 py-1 placeholder-white/20 focus:outline-none focus:border-cyan-500/50"
+          aria-label="Custom gesture name"
+        />
+        <button
+          onClick={handleRecord}
+          disabled={!isTracking || !name.trim() || progress !== null}
+          className="px-3 py-1 bg-red-500/10 hover:bg-red-500/20 text-red-400 text-[9px] font-bold tracking-wider rounded border border-red-500/20 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          {progress === null ? '● REC' : `${Math.round(progress * 100)}%`}
+        </button>
+      </div>
+
+      {!isTracking && (
+        <span className="text-[8px] font-mono text-white/30">START TRACKING TO RECORD A POSE</span>
+      )}
+
+      {gestures.map((gesture) => (
+        <div key={gesture.id} className="flex items-center gap-2">
+          <span className="text-sm">{CUSTOM_GESTURE_ICON}</span>
+          <span className="flex-1 text-[9px] font-mono uppercase tracking-widest text-white/60 truncate">{gesture.name}</span>
+          <span className="text-[8px] font-mono text-white/30">{gesture.samples.length} SAMPLES</span>
+          <button
+            onClick={() => onRemove(gesture.id)}
+            className="text-white/30 hover:text-red-400 text-[10px]"
+            aria-label={`Delete ${gesture.name}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
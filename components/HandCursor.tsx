@@ -0,0 +1,41 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { cursorToWorld, FORCE_RADIUS, ForceCursor, ForceMode } from './particleDynamics';
+
+interface HandCursorProps {
+  cursor: ForceCursor;
+}
+
+const MODE_COLORS: Record<ForceMode, string> = {
+  attract: '#22d3ee',
+  repel: '#f87171',
+  vortex: '#c084fc',
+};
+
+// Ring marking the force field's center and reach; grows brighter as the pinch tightens
+export const HandCursor: React.FC<HandCursorProps> = ({ cursor }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  useFrame((state) => {
+    if (!meshRef.current || !materialRef.current) return;
+    cursorToWorld(cursor, state.camera, meshRef.current.position);
+    meshRef.current.quaternion.copy(state.camera.quaternion);
+    meshRef.current.scale.setScalar(0.2 + (1 - cursor.strength) * 0.8);
+    materialRef.current.opacity = 0.25 + cursor.strength * 0.6;
+  });
+
+  return (
+    <mesh ref={meshRef}>
+      <ringGeometry args={[FORCE_RADIUS * 0.95, FORCE_RADIUS, 64]} />
+      <meshBasicMaterial
+        ref={materialRef}
+        color={MODE_COLORS[cursor.mode]}
+        transparent={true}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+      />
+    </mesh>
+  );
+};
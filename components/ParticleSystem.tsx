@@ -1,64 +1,208 @@
 import React, { useMemo, useRef, useEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import { ParticleShape } from '../types';
+import { HandPose, ParticleShape } from '../types';
+import { MorphEngine, MorphEasing } from '../services/morphEngine';
+import {
+  applyAudio,
+  applyCloudRotation,
+  AudioReactive,
+  BurstTrigger,
+  cloudGlow,
+  createForceField,
+  createParticleDynamics,
+  DEFAULT_COLORING,
+  ForceCursor,
+  forceOffset,
+  ParticleColoring,
+  resolvePalette,
+  RotationSync,
+  stepParticleDynamics,
+  syncCloudRotation,
+  triggerBurst,
+  updateForceField,
+  writeParticleColors,
+} from './particleDynamics';
+import { GPUParticles, supportsGPGPU } from './GPUParticles';
+import { createDepthOfFieldUniforms, injectDepthOfField, updateDepthOfField } from './PostProcessing';
+
+// Above this many particles the CPU loop drops frames; 'auto' switches to the GPGPU path
+export const CPU_PARTICLE_LIMIT = 30000;
+
+export type ParticleSimulation = 'auto' | 'gpu' | 'cpu';
 
 interface ParticleSystemProps {
   shape: ParticleShape;
   color: string;
+  coloring?: ParticleColoring; // Per-particle palette gradients; 'solid' uses color
   tension: number; // 0 to 1
   count?: number;
   prevTension?: number; // For detecting rapid changes
-  customText?: string; // Custom text to display
+  customText?: string; // Custom text to display ('\n' starts a new line)
+  textStyle?: TextStyle; // Font, weight and extrusion for TEXT mode
+  image?: HTMLImageElement | null; // Uploaded logo for IMAGE mode
+  model?: Float32Array | null; // Triangle soup (9 floats per triangle) for MODEL mode
+  morphDuration?: number; // Seconds to morph between shapes (0 = snap)
+  morphEasing?: MorphEasing;
+  simulation?: ParticleSimulation; // 'auto' uses the GPU above CPU_PARTICLE_LIMIT when float textures exist
+  rotate?: boolean; // Continuous spin around Y
+  burst?: BurstTrigger | null; // Fire an explosion without a hand gesture
+  leftHand?: HandPose; // With both hands up: left tension drives expansion...
+  rightHand?: HandPose; // ...right palm roll steers rotation, height shifts the hue
+  cursor?: ForceCursor | null; // Hand cursor that attracts/repels/swirls nearby particles
+  audio?: AudioReactive | null; // Music/mic input mapped onto tension, bursts and hue
+  depthOfField?: boolean; // Blur particles away from the cloud centre into soft discs
+  rotationSync?: RotationSync | null; // Show windows share one cloud rotation
 }
 
-// Generate text points using canvas - OPTIMIZED VERSION
-const generateTextPoints = (text: string, count: number): Float32Array => {
+// Palm roll below this (radians) counts as "upright" so the cloud can hold still
+const STEER_DEAD_ZONE = 0.15;
+const STEER_SPEED = 2.0; // rad/s of yaw per radian of roll
+const HUE_RANGE = 0.5; // Full hand height sweeps half the color wheel
+
+// Shape layouts use a seeded generator so every window of a multi-screen show builds the
+// same cloud; GenerateParticles reseeds it before each shape.
+const LAYOUT_SEED = 0x2f6b1d;
+let random = Math.random;
+const seededRandom = (seed: number) => () => {
+  // mulberry32
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export interface TextStyle {
+  fontFamily: string; // CSS font stack for the glyphs; emoji fonts are appended as fallback
+  fontWeight: number;
+  depth: number; // Extra extrusion along Z in world units (0 = flat)
+}
+
+export const TEXT_FONTS: { label: string; family: string }[] = [
+  { label: 'Sans', family: '"PingFang SC", "Microsoft YaHei", "Heiti SC", sans-serif' },
+  { label: 'Serif', family: '"Songti SC", "SimSun", Georgia, serif' },
+  { label: 'Mono', family: '"SF Mono", Menlo, Consolas, monospace' },
+  { label: 'Round', family: '"Arial Rounded MT Bold", "Yuanti SC", "Comic Sans MS", sans-serif' },
+];
+
+export const DEFAULT_TEXT_STYLE: TextStyle = { fontFamily: TEXT_FONTS[0].family, fontWeight: 700, depth: 0 };
+
+const EMOJI_FONTS = '"Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji"';
+const TEXT_CANVAS_WIDTH = 1024;
+const TEXT_CANVAS_HEIGHT = 512;
+const TEXT_LINE_HEIGHT = 1.2;
+const TEXT_MAX_FONT_SIZE = 160;
+const TEXT_MIN_FONT_SIZE = 16;
+
+// Split into user-perceived characters so emoji and CJK never get cut in half
+const splitGraphemes = (text: string): string[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(text), (s) => s.segment);
+  }
+  return Array.from(text);
+};
+
+// Greedy word wrap; words (or unspaced CJK runs) wider than a line break per character
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/(\s+)/)) {
+      if (!word) continue;
+      const candidate = line + word;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      if (/^\s+$/.test(word)) continue;
+      for (const char of splitGraphemes(word)) {
+        if (line && ctx.measureText(line + char).width > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+// Copy a canvas pixel (sRGB bytes) into a linear per-particle color slot
+const sourcePixelColor = new THREE.Color();
+const writeSourceColor = (colors: Float32Array, i3: number, pixels: Uint8ClampedArray, p: number) => {
+  sourcePixelColor.setRGB(pixels[p] / 255, pixels[p + 1] / 255, pixels[p + 2] / 255, THREE.SRGBColorSpace);
+  colors[i3] = sourcePixelColor.r;
+  colors[i3 + 1] = sourcePixelColor.g;
+  colors[i3 + 2] = sourcePixelColor.b;
+};
+
+// Generate text points using canvas - wraps and shrinks the text until it fits.
+// Fills `colors` (if given) with each point's pixel color, so emoji keep theirs.
+const generateTextPoints = (
+  text: string,
+  count: number,
+  style: TextStyle = DEFAULT_TEXT_STYLE,
+  colors?: Float32Array
+): Float32Array => {
   const positions = new Float32Array(count * 3);
   
   // Create a canvas to render text
   const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
   
-  // Moderate canvas size for performance
-  const width = 600;
-  const height = 150;
+  const width = TEXT_CANVAS_WIDTH;
+  const height = TEXT_CANVAS_HEIGHT;
   canvas.width = width;
   canvas.height = height;
   
-  // Clear and draw text
-  ctx.fillStyle = 'black';
-  ctx.fillRect(0, 0, width, height);
-  ctx.fillStyle = 'white';
+  // Auto-fit: largest font size whose wrapped block fits the canvas
+  const maxWidth = width * 0.92;
+  const maxHeight = height * 0.9;
+  let fontSize = TEXT_MAX_FONT_SIZE;
+  let lines: string[] = [];
+  for (; fontSize >= TEXT_MIN_FONT_SIZE; fontSize -= 4) {
+    ctx.font = `${style.fontWeight} ${fontSize}px ${style.fontFamily}, ${EMOJI_FONTS}`;
+    lines = wrapText(ctx, text, maxWidth);
+    const fitsWidth = lines.every((line) => ctx.measureText(line).width <= maxWidth);
+    if (fitsWidth && lines.length * fontSize * TEXT_LINE_HEIGHT <= maxHeight) break;
+  }
+  fontSize = Math.max(fontSize, TEXT_MIN_FONT_SIZE);
   
-  // Use clear font
-  ctx.font = 'bold 100px "PingFang SC", "Microsoft YaHei", "Heiti SC", sans-serif';
+  // Draw on transparent so color emoji count through alpha
+  ctx.clearRect(0, 0, width, height);
+  ctx.fillStyle = 'white';
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
-  ctx.fillText(text, width / 2, height / 2);
+  const lineHeight = fontSize * TEXT_LINE_HEIGHT;
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, index) => ctx.fillText(line, width / 2, top + index * lineHeight));
   
   // Get pixel data
   const imageData = ctx.getImageData(0, 0, width, height);
   const pixels = imageData.data;
   
   // Collect text pixel positions - sample every few pixels for performance
-  const textPixels: { x: number; y: number }[] = [];
+  const textPixels: { x: number; y: number; p: number }[] = [];
   const step = 2; // Sample every 2 pixels for better performance
   for (let y = 0; y < height; y += step) {
     for (let x = 0; x < width; x += step) {
       const i = (y * width + x) * 4;
-      if (pixels[i] > 100) {
-        textPixels.push({ x, y });
+      if (pixels[i + 3] > 100) {
+        textPixels.push({ x, y, p: i });
       }
     }
   }
   
   console.log('Text pixels found:', textPixels.length);
   
-  // Scale factor for 3D space - make text larger
-  const scale = 0.035;
+  // Scale factor for 3D space - the canvas spans about 20 units wide
+  const scale = 0.02;
   const offsetX = width / 2;
   const offsetY = height / 2;
+  const thickness = 0.2 + style.depth;
   
   for (let i = 0; i < count; i++) {
     const i3 = i * 3;
@@ -67,16 +211,17 @@ const generateTextPoints = (text: string, count: number): Float32Array => {
       // Pick a text pixel
       const pixel = textPixels[i % textPixels.length];
       
-      // Minimal depth for flat readable text
-      const z = (Math.random() - 0.5) * 0.2;
+      // Spread through the extrusion depth (minimal when flat for readable text)
+      const z = (random() - 0.5) * thickness;
       
       // Small jitter
-      const jitterX = (Math.random() - 0.5) * 0.05;
-      const jitterY = (Math.random() - 0.5) * 0.05;
+      const jitterX = (random() - 0.5) * 0.05;
+      const jitterY = (random() - 0.5) * 0.05;
       
       positions[i3] = (pixel.x - offsetX) * scale + jitterX;
       positions[i3 + 1] = -(pixel.y - offsetY) * scale + jitterY;
       positions[i3 + 2] = z;
+      if (colors) writeSourceColor(colors, i3, pixels, pixel.p);
     } else {
       // Fallback: create a simple "HI" pattern if text rendering fails
       const col = i % 20;
@@ -90,23 +235,178 @@ const generateTextPoints = (text: string, count: number): Float32Array => {
   return positions;
 };
 
-const GenerateParticles = (count: number, shape: ParticleShape, customText?: string): Float32Array => {
+// Generate image points by sampling a logo's alpha (or luminance for opaque images)
+const generateImagePoints = (image: HTMLImageElement, count: number, colors?: Float32Array): Float32Array => {
+  const positions = new Float32Array(count * 3);
+
+  // Fit the image into a small canvas - SVGs without intrinsic size fall back to 300x150
+  const maxSide = 256;
+  const srcWidth = image.naturalWidth || image.width || 300;
+  const srcHeight = image.naturalHeight || image.height || 150;
+  const fit = maxSide / Math.max(srcWidth, srcHeight);
+  const width = Math.max(1, Math.round(srcWidth * fit));
+  const height = Math.max(1, Math.round(srcHeight * fit));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  // Transparent logos are sampled by alpha; opaque ones by contrast against the corner colour
+  let hasAlpha = false;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 250) {
+      hasAlpha = true;
+      break;
+    }
+  }
+  const luminance = (i: number) => 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  const background = luminance(0);
+
+  const imagePixels: { x: number; y: number; weight: number; p: number }[] = [];
+  const step = 2;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      const alpha = pixels[i + 3] / 255;
+      const weight = hasAlpha ? alpha : alpha * Math.abs(luminance(i) - background) / 255;
+      if (weight > 0.25) {
+        imagePixels.push({ x, y, weight, p: i });
+      }
+    }
+  }
+
+  // Longest side spans ~9 units, similar to the procedural shapes
+  const scale = 9 / maxSide;
+  const offsetX = width / 2;
+  const offsetY = height / 2;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+
+    if (imagePixels.length > 0) {
+      // Favour strong pixels so faint anti-aliased edges stay sparse
+      let pixel = imagePixels[Math.floor(random() * imagePixels.length)];
+      for (let tries = 0; tries < 3 && random() > pixel.weight; tries++) {
+        pixel = imagePixels[Math.floor(random() * imagePixels.length)];
+      }
+
+      const jitterX = (random() - 0.5) * step;
+      const jitterY = (random() - 0.5) * step;
+
+      positions[i3] = (pixel.x + jitterX - offsetX) * scale;
+      positions[i3 + 1] = -(pixel.y + jitterY - offsetY) * scale;
+      positions[i3 + 2] = (random() - 0.5) * 0.3;
+      if (colors) writeSourceColor(colors, i3, pixels, pixel.p);
+    } else {
+      // Fallback: flat grid if the image is empty
+      const col = i % 20;
+      const row = Math.floor(i / 20) % 10;
+      positions[i3] = (col - 10) * 0.3;
+      positions[i3 + 1] = (row - 5) * 0.3;
+      positions[i3 + 2] = 0;
+    }
+  }
+
+  return positions;
+};
+
+// Generate mesh surface points - triangles are picked with probability proportional to area
+const generateMeshPoints = (triangles: Float32Array, count: number): Float32Array => {
+  const positions = new Float32Array(count * 3);
+  const triangleCount = Math.floor(triangles.length / 9);
+
+  // Cumulative area table for weighted triangle selection
+  const cumulativeArea = new Float32Array(triangleCount);
+  let totalArea = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    const o = t * 9;
+    const abx = triangles[o + 3] - triangles[o];
+    const aby = triangles[o + 4] - triangles[o + 1];
+    const abz = triangles[o + 5] - triangles[o + 2];
+    const acx = triangles[o + 6] - triangles[o];
+    const acy = triangles[o + 7] - triangles[o + 1];
+    const acz = triangles[o + 8] - triangles[o + 2];
+    const cx = aby * acz - abz * acy;
+    const cy = abz * acx - abx * acz;
+    const cz = abx * acy - aby * acx;
+    totalArea += Math.sqrt(cx * cx + cy * cy + cz * cz) / 2;
+    cumulativeArea[t] = totalArea;
+  }
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+
+    // Binary search for the triangle owning this slice of area
+    const target = random() * totalArea;
+    let lo = 0;
+    let hi = triangleCount - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulativeArea[mid] < target) lo = mid + 1;
+      else hi = mid;
+    }
+    const o = lo * 9;
+
+    // Uniform barycentric sample (reflect points outside the triangle)
+    let u = random();
+    let v = random();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    const w = 1 - u - v;
+
+    positions[i3] = triangles[o] * w + triangles[o + 3] * u + triangles[o + 6] * v;
+    positions[i3 + 1] = triangles[o + 1] * w + triangles[o + 4] * u + triangles[o + 7] * v;
+    positions[i3 + 2] = triangles[o + 2] * w + triangles[o + 5] * u + triangles[o + 8] * v;
+  }
+
+  return positions;
+};
+
+const GenerateParticles = (
+  count: number,
+  shape: ParticleShape,
+  customText?: string,
+  image?: HTMLImageElement | null,
+  model?: Float32Array | null,
+  textStyle?: TextStyle,
+  colors?: Float32Array // Source colors for TEXT/IMAGE; left untouched for other shapes
+): Float32Array => {
+  random = seededRandom(LAYOUT_SEED);
+
   // Handle text shape specially
   if (shape === ParticleShape.TEXT) {
-    return generateTextPoints(customText || '大雷早上好', count);
+    return generateTextPoints(customText || '大雷早上好', count, textStyle, colors);
   }
-  
+
+  // Uploaded logos; without an image fall through to the default sphere
+  if (shape === ParticleShape.IMAGE && image) {
+    return generateImagePoints(image, count, colors);
+  }
+
+  // Loaded GLB/OBJ meshes; same sphere fallback when nothing is loaded
+  if (shape === ParticleShape.MODEL && model && model.length >= 9) {
+    return generateMeshPoints(model, count);
+  }
+
   const positions = new Float32Array(count * 3);
-  
+
   for (let i = 0; i < count; i++) {
     let x = 0, y = 0, z = 0;
     const i3 = i * 3;
 
     switch (shape) {
+      case ParticleShape.IMAGE:
+      case ParticleShape.MODEL:
       case ParticleShape.SPHERE: {
-        const r = 4 * Math.cbrt(Math.random());
-        const theta = Math.random() * 2 * Math.PI;
-        const phi = Math.acos(2 * Math.random() - 1);
+        const r = 4 * Math.cbrt(random());
+        const theta = random() * 2 * Math.PI;
+        const phi = Math.acos(2 * random() - 1);
         x = r * Math.sin(phi) * Math.cos(theta);
         y = r * Math.sin(phi) * Math.sin(theta);
         z = r * Math.cos(phi);
@@ -114,13 +414,13 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
       }
       
       case ParticleShape.HEART: {
-        const t = Math.random() * Math.PI * 2;
-        const r = Math.random();
+        const t = random() * Math.PI * 2;
+        const r = random();
         let hx = 16 * Math.pow(Math.sin(t), 3);
         let hy = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
         hx *= 0.25;
         hy *= 0.25;
-        const hz = (Math.random() - 0.5) * 2;
+        const hz = (random() - 0.5) * 2;
         x = hx * r;
         y = hy * r;
         z = hz * r;
@@ -129,16 +429,16 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
       
       case ParticleShape.FLOWER: {
         const petals = 6;
-        const theta = Math.random() * 2 * Math.PI;
+        const theta = random() * 2 * Math.PI;
         const rMax = Math.cos(petals * theta) + 2;
-        const r = Math.random() * rMax * 1.5;
+        const r = random() * rMax * 1.5;
         x = r * Math.cos(theta);
         y = r * Math.sin(theta);
-        z = (Math.random() - 0.5) * 1.5;
-        if (Math.random() < 0.2) {
-          const cr = Math.random() * 1;
-          const ctheta = Math.random() * 2 * Math.PI;
-          const cphi = Math.acos(2 * Math.random() - 1);
+        z = (random() - 0.5) * 1.5;
+        if (random() < 0.2) {
+          const cr = random() * 1;
+          const ctheta = random() * 2 * Math.PI;
+          const cphi = Math.acos(2 * random() - 1);
           x = cr * Math.sin(cphi) * Math.cos(ctheta);
           y = cr * Math.sin(cphi) * Math.sin(ctheta);
           z = cr * Math.cos(cphi);
@@ -147,17 +447,17 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
       }
       
       case ParticleShape.SATURN: {
-        if (Math.random() < 0.6) {
-          const r = 2 * Math.cbrt(Math.random());
-          const theta = Math.random() * 2 * Math.PI;
-          const phi = Math.acos(2 * Math.random() - 1);
+        if (random() < 0.6) {
+          const r = 2 * Math.cbrt(random());
+          const theta = random() * 2 * Math.PI;
+          const phi = Math.acos(2 * random() - 1);
           x = r * Math.sin(phi) * Math.cos(theta);
           y = r * Math.sin(phi) * Math.sin(theta) * 0.9;
           z = r * Math.cos(phi);
         } else {
-          const ringRadius = 3 + Math.random() * 1.5;
-          const ringTheta = Math.random() * 2 * Math.PI;
-          const ringHeight = (Math.random() - 0.5) * 0.15;
+          const ringRadius = 3 + random() * 1.5;
+          const ringTheta = random() * 2 * Math.PI;
+          const ringHeight = (random() - 0.5) * 0.15;
           x = ringRadius * Math.cos(ringTheta);
           y = ringHeight;
           z = ringRadius * Math.sin(ringTheta);
@@ -166,39 +466,39 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
       }
       
       case ParticleShape.BUDDHA: {
-        const section = Math.random();
+        const section = random();
         if (section < 0.25) {
-          const r = 1 * Math.cbrt(Math.random());
-          const theta = Math.random() * 2 * Math.PI;
-          const phi = Math.acos(2 * Math.random() - 1);
+          const r = 1 * Math.cbrt(random());
+          const theta = random() * 2 * Math.PI;
+          const phi = Math.acos(2 * random() - 1);
           x = r * Math.sin(phi) * Math.cos(theta) * 0.8;
           y = r * Math.sin(phi) * Math.sin(theta) * 1 + 3;
           z = r * Math.cos(phi) * 0.8;
         } else if (section < 0.5) {
-          const r = 1.5 * Math.cbrt(Math.random());
-          const theta = Math.random() * 2 * Math.PI;
-          const phi = Math.acos(2 * Math.random() - 1);
+          const r = 1.5 * Math.cbrt(random());
+          const theta = random() * 2 * Math.PI;
+          const phi = Math.acos(2 * random() - 1);
           x = r * Math.sin(phi) * Math.cos(theta);
           y = r * Math.sin(phi) * Math.sin(theta) * 1.5 + 0.5;
           z = r * Math.cos(phi) * 0.8;
         } else if (section < 0.7) {
-          const r = 2 * Math.cbrt(Math.random());
-          const theta = Math.random() * 2 * Math.PI;
+          const r = 2 * Math.cbrt(random());
+          const theta = random() * 2 * Math.PI;
           x = r * Math.cos(theta);
-          y = -1.5 + Math.random() * 0.5;
+          y = -1.5 + random() * 0.5;
           z = r * Math.sin(theta) * 0.4;
         } else {
-          const ringRadius = 1.5 + Math.random() * 0.3;
-          const ringTheta = Math.random() * 2 * Math.PI;
+          const ringRadius = 1.5 + random() * 0.3;
+          const ringTheta = random() * 2 * Math.PI;
           x = ringRadius * Math.cos(ringTheta);
           y = 3 + ringRadius * Math.sin(ringTheta) * 0.3;
-          z = (Math.random() - 0.5) * 0.2;
+          z = (random() - 0.5) * 0.2;
         }
         break;
       }
       
       case ParticleShape.FIREWORKS: {
-        const burstPoint = Math.floor(Math.random() * 5);
+        const burstPoint = Math.floor(random() * 5);
         const burstCenters = [
           { x: 0, y: 2, z: 0 },
           { x: -2, y: 1, z: 1 },
@@ -207,33 +507,33 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
           { x: 1.5, y: -1, z: 1 },
         ];
         const center = burstCenters[burstPoint];
-        const r = Math.random() * 2;
-        const theta = Math.random() * 2 * Math.PI;
-        const phi = Math.acos(2 * Math.random() - 1);
+        const r = random() * 2;
+        const theta = random() * 2 * Math.PI;
+        const phi = Math.acos(2 * random() - 1);
         x = center.x + r * Math.sin(phi) * Math.cos(theta);
         y = center.y + r * Math.sin(phi) * Math.sin(theta);
         z = center.z + r * Math.cos(phi);
-        if (Math.random() < 0.3) {
-          y -= Math.random() * 1.5;
+        if (random() < 0.3) {
+          y -= random() * 1.5;
         }
         break;
       }
       
       case ParticleShape.GALAXY: {
         const branches = 4;
-        const radius = Math.random() * 5;
+        const radius = random() * 5;
         const spinAngle = radius * 2;
         const branchAngle = ((i % branches) / branches) * Math.PI * 2;
-        const randomX = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * 0.5;
-        const randomY = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * 0.3;
-        const randomZ = Math.pow(Math.random(), 3) * (Math.random() < 0.5 ? 1 : -1) * 0.5;
+        const randomX = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * 0.5;
+        const randomY = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * 0.3;
+        const randomZ = Math.pow(random(), 3) * (random() < 0.5 ? 1 : -1) * 0.5;
         x = Math.cos(branchAngle + spinAngle) * radius + randomX;
         y = randomY;
         z = Math.sin(branchAngle + spinAngle) * radius + randomZ;
-        if (Math.random() < 0.15) {
-          const bulgeR = Math.random() * 1;
-          const bulgeTheta = Math.random() * 2 * Math.PI;
-          const bulgePhi = Math.acos(2 * Math.random() - 1);
+        if (random() < 0.15) {
+          const bulgeR = random() * 1;
+          const bulgeTheta = random() * 2 * Math.PI;
+          const bulgePhi = Math.acos(2 * random() - 1);
           x = bulgeR * Math.sin(bulgePhi) * Math.cos(bulgeTheta);
           y = bulgeR * Math.sin(bulgePhi) * Math.sin(bulgeTheta) * 0.3;
           z = bulgeR * Math.cos(bulgePhi);
@@ -252,14 +552,14 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
           z = helixRadius * Math.sin(t + Math.PI);
         }
         y = (i / count - 0.5) * 10;
-        if (Math.random() < 0.1) {
-          const barT = Math.random() * Math.PI;
+        if (random() < 0.1) {
+          const barT = random() * Math.PI;
           x = helixRadius * Math.cos(t) * (1 - barT / Math.PI) + helixRadius * Math.cos(t + Math.PI) * (barT / Math.PI);
           z = helixRadius * Math.sin(t) * (1 - barT / Math.PI) + helixRadius * Math.sin(t + Math.PI) * (barT / Math.PI);
         }
-        x += (Math.random() - 0.5) * 0.2;
-        y += (Math.random() - 0.5) * 0.2;
-        z += (Math.random() - 0.5) * 0.2;
+        x += (random() - 0.5) * 0.2;
+        y += (random() - 0.5) * 0.2;
+        z += (random() - 0.5) * 0.2;
         break;
       }
     }
@@ -271,40 +571,104 @@ const GenerateParticles = (count: number, shape: ParticleShape, customText?: str
   return positions;
 };
 
-export const ParticleSystem: React.FC<ParticleSystemProps> = ({ 
-  shape, 
-  color, 
-  tension, 
-  count = 12000,  // Reduced for better performance
-  customText = '大雷早上好'
+interface CPUParticlesProps {
+  shapePositions: Float32Array;
+  count: number;
+  color: string;
+  tension: number;
+  isTextMode: boolean;
+  morphDuration: number;
+  morphEasing: MorphEasing;
+  rotate: boolean;
+  burst: BurstTrigger | null;
+  steer: number; // Extra yaw speed (rad/s) from the right hand
+  cursor: ForceCursor | null;
+  audio: AudioReactive | null;
+  coloring: ParticleColoring;
+  sourceColors: Float32Array; // Linear RGB per particle, sampled from the TEXT/IMAGE source
+  depthOfField: boolean;
+  rotationSync: RotationSync | null;
+}
+
+// CPU simulation - per-particle update in useFrame, fine up to ~CPU_PARTICLE_LIMIT
+const CPUParticles: React.FC<CPUParticlesProps> = ({
+  shapePositions,
+  count: actualCount,
+  color,
+  tension: inputTension,
+  isTextMode,
+  morphDuration,
+  morphEasing,
+  rotate,
+  burst,
+  steer,
+  cursor,
+  audio,
+  coloring,
+  sourceColors,
+  depthOfField,
+  rotationSync
 }) => {
-  // Same particle count for all modes for stability
-  const actualCount = count;
-  
   const pointsRef = useRef<THREE.Points>(null);
   const materialRef = useRef<THREE.PointsMaterial>(null);
-  const groupRef = useRef<THREE.Group>(null);
   
   // Track previous tension for velocity-based effects
-  const tensionVelocity = useRef(0);
-  const prevTensionRef = useRef(tension);
-  const burstEnergy = useRef(0);
-  const shockwaveRadius = useRef(0);
-  const explosionPhase = useRef(0);
-  const cumulativeExplosion = useRef(0);
+  const dynamics = useRef(createParticleDynamics(inputTension));
+  const forceField = useMemo(createForceField, []);
+  const force = useMemo(() => new THREE.Vector3(), []);
+  const baseColor = useMemo(() => new THREE.Color(), []);
+  const palette = useMemo<THREE.Color[]>(() => [], []);
+  const dof = useMemo(createDepthOfFieldUniforms, []);
+
+  useEffect(() => {
+    if (materialRef.current) injectDepthOfField(materialRef.current, dof);
+  }, [dof]);
+
+  useEffect(() => {
+    if (burst) triggerBurst(dynamics.current, burst.strength);
+  }, [burst]);
   
-  // Buffers
-  const currentPositions = useMemo(() => new Float32Array(actualCount * 3), [actualCount]);
+  // Buffers - a new geometry per count, three can't resize an uploaded attribute.
+  // The governor changes the count mid-animation, so particles that survive keep their place.
+  const carriedRef = useRef(0);
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    const positions = new Float32Array(actualCount * 3);
+    const previous = pointsRef.current?.geometry.getAttribute('position');
+    carriedRef.current = previous ? Math.min(previous.count, actualCount) : 0;
+    if (previous) positions.set((previous.array as Float32Array).subarray(0, carriedRef.current * 3));
+    g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    g.setAttribute('color', new THREE.BufferAttribute(new Float32Array(actualCount * 3).fill(1), 3));
+    return g;
+  }, [actualCount]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const currentPositions = geometry.attributes.position.array as Float32Array;
+  const colors = geometry.attributes.color.array as Float32Array;
   const velocities = useMemo(() => new Float32Array(actualCount * 3), [actualCount]);
   const explosionVelocities = useMemo(() => new Float32Array(actualCount * 3), [actualCount]); // Explosion direction
-  const targetPositions = useMemo(() => GenerateParticles(actualCount, shape, customText), [shape, actualCount, customText]);
-  
-  // Initialize current positions to target on first load if all zero
+
+  // Morphed rest positions - effects below are applied on top of these
+  const targetPositions = useMemo(() => new Float32Array(actualCount * 3), [actualCount]);
+  const morphRef = useRef(new MorphEngine());
+  const morphedBufferRef = useRef<Float32Array | null>(null);
+
+  // Morph to each new shape; when the buffers were just (re)allocated, particles that
+  // weren't carried over snap to the shape and the rest spring to it
   useEffect(() => {
-    if (currentPositions[0] === 0 && currentPositions[1] === 0) {
-      currentPositions.set(targetPositions);
+    if (morphedBufferRef.current !== targetPositions) {
+      morphedBufferRef.current = targetPositions;
+      morphRef.current.stop();
+      targetPositions.set(shapePositions);
+      const carried = carriedRef.current * 3;
+      currentPositions.set(shapePositions.subarray(carried), carried);
+      return;
     }
-  }, [targetPositions, currentPositions]);
+    morphRef.current.start(targetPositions, shapePositions, morphDuration, morphEasing);
+    // Duration/easing only apply to the next switch, they don't restart a morph
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shapePositions, targetPositions, currentPositions]);
 
   // Animation Loop
   useFrame((state, delta) => {
@@ -312,9 +676,29 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
 
     const positions = pointsRef.current.geometry.attributes.position.array as Float32Array;
     const time = state.clock.elapsedTime;
-    
-    // Check if we're in TEXT mode - simplified animation for performance
-    const isTextMode = shape === ParticleShape.TEXT;
+    const { tension, hueShift } = applyAudio(dynamics.current, audio, inputTension);
+
+    // Advance the shape morph (keeps particle identity, eased over morphDuration)
+    if (morphRef.current.isActive) {
+      morphRef.current.step(delta, targetPositions);
+    }
+
+    // Vertex colors from the palette (the material itself stays white)
+    baseColor.set(color).offsetHSL(hueShift, 0, 0);
+    resolvePalette(coloring.palette, hueShift, palette);
+    writeParticleColors(
+      colors,
+      actualCount,
+      coloring.mode,
+      baseColor,
+      palette,
+      time * coloring.speed,
+      targetPositions,
+      velocities,
+      sourceColors
+    );
+    pointsRef.current.geometry.attributes.color.needsUpdate = true;
+    updateDepthOfField(dof, depthOfField, state.camera, pointsRef.current);
     
     // TEXT MODE: Simple, fast animation
     if (isTextMode) {
@@ -338,9 +722,11 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       pointsRef.current.geometry.attributes.position.needsUpdate = true;
       
       // Very slow rotation
-      pointsRef.current.rotation.y += delta * 0.03;
+      if (rotate) pointsRef.current.rotation.y += delta * 0.03;
+      pointsRef.current.rotation.y += delta * steer;
       pointsRef.current.rotation.x = 0;
       pointsRef.current.rotation.z = 0;
+      syncCloudRotation(pointsRef.current, rotationSync);
       
       // Bright, clear particles
       if (materialRef.current) {
@@ -351,39 +737,9 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
     }
     
     // NORMAL MODE: Full effects
-    // Calculate tension velocity (how fast the hand is opening/closing)
-    const tensionDelta = tension - prevTensionRef.current;
-    tensionVelocity.current = tensionVelocity.current * 0.85 + tensionDelta * 15;
-    prevTensionRef.current = tension;
-    
-    // ========================================
-    // EXPLOSIVE BURST DETECTION
-    // ========================================
-    // Detect rapid opening (tension dropping quickly)
-    const isOpening = tensionDelta < -0.015;
-    const openingSpeed = Math.abs(Math.min(tensionDelta, 0));
-    
-    // Accumulate burst energy when opening rapidly
-    if (isOpening) {
-      burstEnergy.current = Math.min(burstEnergy.current + openingSpeed * 25, 5);
-      explosionPhase.current = Math.min(explosionPhase.current + openingSpeed * 30, 1);
-      cumulativeExplosion.current = Math.min(cumulativeExplosion.current + openingSpeed * 10, 2);
-    }
-    
-    // Shockwave expands outward
-    if (burstEnergy.current > 0.5) {
-      shockwaveRadius.current += delta * 15 * burstEnergy.current;
-    }
-    
-    // Decay effects
-    burstEnergy.current *= 0.92;
-    explosionPhase.current *= 0.95;
-    cumulativeExplosion.current *= 0.98;
-    shockwaveRadius.current *= 0.96;
-    
-    // Dynamic morph speed - FASTER RESPONSE
-    const baseMorphSpeed = 8.0; // Increased from 5.0
-    const morphSpeed = (baseMorphSpeed + Math.abs(tensionVelocity.current) * 6) * delta; // Increased multiplier
+    const d = dynamics.current;
+    const morphSpeed = stepParticleDynamics(d, tension, delta);
+    updateForceField(forceField, cursor, state.camera, pointsRef.current);
     
     for (let i = 0; i < actualCount; i++) {
       const i3 = i * 3;
@@ -412,12 +768,12 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       const scaleFactor = closedScale + (openScale - closedScale) * scaleEase;
       
       // 2. EXPLOSION BURST - Particles fly outward
-      const explosionStrength = burstEnergy.current * (0.8 + normalizedDist * 0.5);
+      const explosionStrength = d.burstEnergy * (0.8 + normalizedDist * 0.5);
       const particlePhase = (i / actualCount) * Math.PI * 2;
       const explosionWave = Math.sin(particlePhase + time * 10) * 0.3 + 1;
       
       // Store explosion velocity for this particle
-      if (burstEnergy.current > 1) {
+      if (d.burstEnergy > 1) {
         explosionVelocities[i3] += dirX * explosionStrength * 0.3;
         explosionVelocities[i3 + 1] += dirY * explosionStrength * 0.3;
         explosionVelocities[i3 + 2] += dirZ * explosionStrength * 0.3;
@@ -428,8 +784,8 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       explosionVelocities[i3 + 2] *= 0.95;
       
       // 3. SHOCKWAVE - Ring of energy expanding outward
-      const shockwaveDist = Math.abs(dist - shockwaveRadius.current);
-      const shockwaveEffect = shockwaveDist < 1.5 ? (1.5 - shockwaveDist) / 1.5 * burstEnergy.current * 0.8 : 0;
+      const shockwaveDist = Math.abs(dist - d.shockwaveRadius);
+      const shockwaveEffect = shockwaveDist < 1.5 ? (1.5 - shockwaveDist) / 1.5 * d.burstEnergy * 0.8 : 0;
       
       // 4. BREATHING - Organic pulsing when relaxed
       const breatheFreq = 1.5 + tension * 3;
@@ -445,7 +801,7 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       const chaosZ = Math.sin(time * chaosFreq * 0.83 + i * 0.71) * chaosIntensity;
       
       // 6. VORTEX SPIRAL during transitions
-      const vortexStrength = Math.abs(tensionVelocity.current) * 1.5;
+      const vortexStrength = Math.abs(d.tensionVelocity) * 1.5;
       const vortexAngle = time * 5 + normalizedDist * 3 + i * 0.003;
       const vortexX = Math.cos(vortexAngle) * vortexStrength * normalizedDist;
       const vortexZ = Math.sin(vortexAngle) * vortexStrength * normalizedDist;
@@ -465,7 +821,7 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       
       // 8. FIREWORK SCATTER on open
       const scatterAngle = i * 2.39996; // Golden angle
-      const scatterRadius = explosionPhase.current * (1 + Math.sin(i * 0.1) * 0.5);
+      const scatterRadius = d.explosionPhase * (1 + Math.sin(i * 0.1) * 0.5);
       const scatterX = Math.cos(scatterAngle) * Math.sin(i * 0.5) * scatterRadius;
       const scatterY = Math.sin(scatterAngle) * Math.cos(i * 0.3) * scatterRadius;
       const scatterZ = Math.cos(i * 0.7) * scatterRadius;
@@ -488,6 +844,14 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
       ty += explosionVelocities[i3 + 1];
       tz += explosionVelocities[i3 + 2];
 
+      // 10. HAND CURSOR - attract/repel/vortex around the pinch point
+      if (forceField.strength > 0) {
+        forceOffset(forceField, positions[i3], positions[i3 + 1], positions[i3 + 2], force);
+        tx += force.x;
+        ty += force.y;
+        tz += force.z;
+      }
+
       // Smooth interpolation with velocity - SNAPPY RESPONSE
       const currentX = positions[i3];
       const currentY = positions[i3 + 1];
@@ -508,48 +872,24 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
 
     pointsRef.current.geometry.attributes.position.needsUpdate = true;
     
-    // Dynamic rotation - explosive spin when opening
-    const baseRotation = 0.15;
-    const burstRotation = burstEnergy.current * 0.8;
-    const velocityRotation = Math.abs(tensionVelocity.current) * 0.6;
-    const rotationSpeed = (baseRotation + velocityRotation + burstRotation) * (1 - tension * 0.5);
-    pointsRef.current.rotation.y += delta * rotationSpeed;
-    
-    // Tilt and wobble
-    pointsRef.current.rotation.x = Math.sin(time * 0.5) * 0.15 * (1 - tension) + burstEnergy.current * 0.1;
-    pointsRef.current.rotation.z = Math.cos(time * 0.3) * 0.05 * burstEnergy.current;
+    applyCloudRotation(pointsRef.current, d, tension, delta, time, rotate);
+    pointsRef.current.rotation.y += delta * steer;
+    syncCloudRotation(pointsRef.current, rotationSync);
     
     // Update material for GLOW effect
     if (materialRef.current) {
-      // Intense glow during burst
-      const baseOpacity = 0.75;
-      const burstGlow = burstEnergy.current * 0.25;
-      const openGlow = (1 - tension) * 0.25;
-      materialRef.current.opacity = Math.min(baseOpacity + burstGlow + openGlow, 1);
-      
-      // Particle size changes dramatically
-      const baseSize = 0.035;
-      const openSize = (1 - tension) * 0.04;
-      const burstSize = burstEnergy.current * 0.03;
-      const pulseSize = Math.sin(time * 8) * 0.005 * burstEnergy.current;
-      materialRef.current.size = baseSize + openSize + burstSize + pulseSize;
+      const glow = cloudGlow(d, tension, time);
+      materialRef.current.opacity = glow.opacity;
+      materialRef.current.size = glow.size;
     }
   });
 
   return (
-    <points ref={pointsRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={actualCount}
-          array={currentPositions}
-          itemSize={3}
-        />
-      </bufferGeometry>
+    <points ref={pointsRef} geometry={geometry}>
       <pointsMaterial
         ref={materialRef}
         size={0.05}
-        color={color}
+        vertexColors={true}
         sizeAttenuation={true}
         depthWrite={false}
         blending={THREE.AdditiveBlending}
@@ -559,3 +899,86 @@ export const ParticleSystem: React.FC<ParticleSystemProps> = ({
     </points>
   );
 };
+
+export const ParticleSystem: React.FC<ParticleSystemProps> = ({ 
+  shape, 
+  color, 
+  coloring = DEFAULT_COLORING,
+  tension, 
+  count = 12000,  // Reduced for better performance
+  customText = '大雷早上好',
+  textStyle = DEFAULT_TEXT_STYLE,
+  image = null,
+  model = null,
+  morphDuration = 1.2,
+  morphEasing = 'easeInOutCubic',
+  simulation = 'auto',
+  rotate = true,
+  burst = null,
+  leftHand,
+  rightHand,
+  cursor = null,
+  audio = null,
+  depthOfField = false,
+  rotationSync = null
+}) => {
+  const gl = useThree((state) => state.gl);
+  const gpuSupported = useMemo(() => supportsGPGPU(gl), [gl]);
+
+  // Large clouds go to the GPU; without float textures fall back to the CPU path at a safe count
+  const runOnGPU = gpuSupported && (simulation === 'gpu' || (simulation === 'auto' && count > CPU_PARTICLE_LIMIT));
+  const actualCount = runOnGPU || simulation === 'cpu' ? count : Math.min(count, CPU_PARTICLE_LIMIT);
+
+  useEffect(() => {
+    if (actualCount < count) {
+      console.warn(`GPGPU unavailable, limiting particles to ${actualCount} (requested ${count})`);
+    }
+  }, [actualCount, count]);
+
+  // Rest positions plus the source color of each point (white for procedural shapes)
+  const { shapePositions, sourceColors } = useMemo(() => {
+    const colors = new Float32Array(actualCount * 3).fill(1);
+    const positions = GenerateParticles(actualCount, shape, customText, image, model, textStyle, colors);
+    return { shapePositions: positions, sourceColors: colors };
+  }, [shape, actualCount, customText, image, model, textStyle]);
+
+  // Two-hand mode: split expansion and rotation/hue across hands so both can be driven at once
+  const twoHanded = !!leftHand && !!rightHand;
+  const expansion = twoHanded ? leftHand.tension : tension;
+  const roll = twoHanded ? rightHand.rotation : 0;
+  const steer = Math.abs(roll) > STEER_DEAD_ZONE ? (roll - Math.sign(roll) * STEER_DEAD_ZONE) * STEER_SPEED : 0;
+  const hueShift = twoHanded ? Math.round(rightHand.position.y * 36) / 36 : 0; // Quantized to avoid a new color every frame
+
+  const displayColor = useMemo(() => {
+    if (hueShift === 0) return color;
+    return '#' + new THREE.Color(color).offsetHSL(hueShift * HUE_RANGE, 0, 0).getHexString();
+  }, [color, hueShift]);
+
+  const displayColoring = useMemo(() => {
+    if (hueShift === 0) return coloring;
+    const palette = coloring.palette.map((stop) => '#' + new THREE.Color(stop).offsetHSL(hueShift * HUE_RANGE, 0, 0).getHexString());
+    return { ...coloring, palette };
+  }, [coloring, hueShift]);
+
+  const Particles = runOnGPU ? GPUParticles : CPUParticles;
+  return (
+    <Particles
+      shapePositions={shapePositions}
+      count={actualCount}
+      color={displayColor}
+      tension={expansion}
+      isTextMode={shape === ParticleShape.TEXT}
+      morphDuration={morphDuration}
+      morphEasing={morphEasing}
+      rotate={rotate}
+      burst={burst}
+      steer={steer}
+      cursor={cursor}
+      audio={audio}
+      coloring={displayColoring}
+      sourceColors={sourceColors}
+      depthOfField={depthOfField}
+      rotationSync={rotationSync}
+    />
+  );
+};
@@ -0,0 +1,18 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerformanceGovernor, PerformanceSample } from '../services/performanceGovernor';
+
+interface PerformanceMonitorProps {
+  governor: PerformanceGovernor;
+  onSample: (sample: PerformanceSample) => void; // About once per second
+}
+
+// Feeds real frame times into the governor; unmount it while FrameCapture drives the clock
+export const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({ governor, onSample }) => {
+  useFrame((_, delta) => {
+    const sample = governor.tick(delta);
+    if (sample) onSample(sample);
+  });
+
+  return null;
+};
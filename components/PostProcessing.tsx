@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+
+export type PostQuality = 'low' | 'medium' | 'high';
+
+export interface PostSettings {
+  bloom: boolean;
+  trails: boolean; // Afterimage motion trails
+  chromatic: boolean; // RGB-split chromatic aberration
+  depthOfField: boolean; // Applied per particle, see DEPTH OF FIELD below
+  quality: PostQuality;
+}
+
+export const POST_QUALITIES: PostQuality[] = ['low', 'medium', 'high'];
+
+export const DEFAULT_POST_SETTINGS: PostSettings = {
+  bloom: false,
+  trails: false,
+  chromatic: false,
+  depthOfField: false,
+  quality: 'medium',
+};
+
+export const hasPostEffects = (settings: PostSettings): boolean =>
+  settings.bloom || settings.trails || settings.chromatic;
+
+// Per tier: effect buffers relative to the canvas resolution, and MSAA samples for the scene pass
+const QUALITY: Record<PostQuality, { scale: number; samples: number }> = {
+  low: { scale: 0.5, samples: 0 },
+  medium: { scale: 1, samples: 0 },
+  high: { scale: 1, samples: 4 },
+};
+
+// Bloom lifts the alpha of every pixel, so the effect chain renders over an opaque backdrop
+// matching the page gradient instead of a transparent canvas.
+const BACKDROP = new THREE.Color('#030712');
+
+/**
+ * Screen-space effect stack for the particle Canvas. Mount it inside the Canvas only
+ * while at least one effect is on; it takes over rendering (useFrame priority 1), so
+ * unmounting restores R3F's plain render. Works with FrameCapture: the composer follows
+ * whatever size the renderer has when each frame is drawn.
+ */
+export const PostProcessing: React.FC<{ settings: PostSettings }> = ({ settings }) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const camera = useThree((state) => state.camera);
+  const { scale, samples } = QUALITY[settings.quality];
+
+  const pipeline = useMemo(() => {
+    const target = new THREE.WebGLRenderTarget(1, 1, { type: THREE.HalfFloatType, samples });
+    const composer = new EffectComposer(gl, target);
+    const trails = new AfterimagePass(0.86);
+    const bloom = new UnrealBloomPass(new THREE.Vector2(256, 256), 1.1, 0.5, 0.1);
+    const chromatic = new ShaderPass(RGBShiftShader);
+    chromatic.uniforms.amount.value = 0.0018;
+    chromatic.uniforms.angle.value = Math.PI / 4;
+
+    const passes = [new RenderPass(scene, camera), trails, bloom, chromatic, new OutputPass()];
+    passes.forEach((pass) => composer.addPass(pass));
+    // Last size handed to the composer, compared each frame
+    const applied = { width: -1, height: -1, pixelRatio: -1 };
+    return { composer, passes, trails, bloom, chromatic, applied, size: new THREE.Vector2() };
+  }, [gl, scene, camera, samples]);
+
+  useEffect(() => {
+    return () => {
+      pipeline.passes.forEach((pass) => pass.dispose());
+      pipeline.composer.dispose();
+    };
+  }, [pipeline]);
+
+  useEffect(() => {
+    const previous = scene.background;
+    scene.background = BACKDROP;
+    return () => {
+      scene.background = previous;
+    };
+  }, [scene]);
+
+  useFrame((state, delta) => {
+    const { composer, trails, bloom, chromatic, applied, size } = pipeline;
+    const { x: width, y: height } = state.gl.getSize(size);
+    const pixelRatio = state.gl.getPixelRatio() * scale;
+    if (width !== applied.width || height !== applied.height || pixelRatio !== applied.pixelRatio) {
+      Object.assign(applied, { width, height, pixelRatio });
+      composer.setPixelRatio(pixelRatio);
+      composer.setSize(width, height);
+    }
+
+    trails.enabled = settings.trails;
+    bloom.enabled = settings.bloom;
+    chromatic.enabled = settings.chromatic;
+    composer.render(delta);
+  }, 1);
+
+  return null;
+};
+
+// ========================================
+// DEPTH OF FIELD
+// ========================================
+// Additive points don't write depth, so a screen-space bokeh pass has nothing to read.
+// Instead each particle gets a circle of confusion from its distance to the focus plane:
+// out-of-focus points grow into soft discs and dim so their total light stays similar.
+export const DOF_APERTURE = 0.12; // Blur per world unit away from the focus plane
+const DOF_MAX_GROWTH = 6; // Largest disc, in multiples of the sharp point size
+
+export interface DepthOfFieldUniforms {
+  [uniform: string]: THREE.IUniform<number>;
+  uDofAmount: THREE.IUniform<number>; // 0 disables the effect
+  uDofFocus: THREE.IUniform<number>; // View-space distance that stays sharp
+}
+
+export const createDepthOfFieldUniforms = (): DepthOfFieldUniforms => ({
+  uDofAmount: { value: 0 },
+  uDofFocus: { value: 12 },
+});
+
+const focusTarget = new THREE.Vector3();
+
+// Keep the particle cloud's centre in focus as the camera orbits/zooms
+export const updateDepthOfField = (
+  uniforms: DepthOfFieldUniforms,
+  enabled: boolean,
+  camera: THREE.Camera,
+  object: THREE.Object3D
+) => {
+  uniforms.uDofAmount.value = enabled ? DOF_APERTURE : 0;
+  uniforms.uDofFocus.value = camera.position.distanceTo(object.getWorldPosition(focusTarget));
+};
+
+export const DOF_VERTEX_PARS = /* glsl */ `
+  uniform float uDofAmount;
+  uniform float uDofFocus;
+  varying float vDofBlur;
+`;
+
+// Needs mvPosition and gl_PointSize already set
+export const DOF_VERTEX = /* glsl */ `
+  vDofBlur = clamp(abs(-mvPosition.z - uDofFocus) * uDofAmount, 0.0, 1.0);
+  gl_PointSize *= 1.0 + vDofBlur * ${(DOF_MAX_GROWTH - 1).toFixed(1)};
+`;
+
+export const DOF_FRAGMENT_PARS = /* glsl */ `
+  varying float vDofBlur;
+
+  // Alpha multiplier: sharp points keep their square footprint, blurred ones become dim discs
+  float dofAlpha() {
+    if (vDofBlur <= 0.0) return 1.0;
+    float r = length(gl_PointCoord - 0.5) * 2.0;
+    float disc = 1.0 - smoothstep(0.6, 1.0, r);
+    return mix(1.0, disc, min(vDofBlur * 4.0, 1.0)) / (1.0 + vDofBlur * ${(DOF_MAX_GROWTH - 1).toFixed(1)});
+  }
+`;
+
+// Patch a PointsMaterial (CPU path) with the same circle-of-confusion logic
+export const injectDepthOfField = (material: THREE.PointsMaterial, uniforms: DepthOfFieldUniforms) => {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${DOF_VERTEX_PARS}`)
+      .replace('#include <logdepthbuf_vertex>', `${DOF_VERTEX}\n#include <logdepthbuf_vertex>`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${DOF_FRAGMENT_PARS}`)
+      .replace('#include <alphatest_fragment>', `diffuseColor.a *= dofAlpha();\n#include <alphatest_fragment>`);
+  };
+  material.needsUpdate = true;
+};
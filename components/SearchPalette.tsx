@@ -8,20 +8,24 @@ import {
   type LocalizedText,
   type VideoItem,
 } from '../data/site';
+import { ROUTES, type RouteDef } from '../routes';
+import { loadSearchIndex, searchDocs, type SearchIndex } from './searchIndex';
 
 /* ---------------------------------------------------------------------------
  * SearchPalette — the site-wide ⌘K command palette, in 大雷's ink-on-paper
  * editorial language: hairline borders, mono microcopy, serif titles, a 大
  * monogram, and the gold accent for the selected row.
  *
- * Searches projects, videos, page sections and quick actions. Matching runs
- * against BOTH the English and Chinese strings (plus tags), so a query hits
- * regardless of the current UI language.
+ * Searches projects, every routed page, videos, page sections and quick
+ * actions. Matching runs against BOTH the English and Chinese strings (plus
+ * tags and pinyin), so a query hits regardless of the current UI language.
+ * The items inside pages — prompts, templates, skills… — come from the
+ * build-time index in ./searchIndex and deep-link to the item itself.
  * ------------------------------------------------------------------------- */
 
 interface PaletteItem {
   key: string;
-  group: 'project' | 'video' | 'page' | 'action';
+  group: 'project' | 'route' | 'content' | 'video' | 'page' | 'action';
   title: LocalizedText;
   meta: string;
   /** lowercase haystack of every searchable string, both languages */
@@ -42,12 +46,14 @@ interface Props {
 
 const GROUP_LABEL: Record<PaletteItem['group'], LocalizedText> = {
   project: { en: 'Projects', zh: '项目' },
+  route: { en: 'All pages', zh: '全部页面' },
+  content: { en: 'In pages', zh: '页面内容' },
   video: { en: 'Videos', zh: '视频' },
   page: { en: 'Pages', zh: '页面' },
   action: { en: 'Quick actions', zh: '快捷操作' },
 };
 
-const GROUP_ORDER: PaletteItem['group'][] = ['project', 'video', 'page', 'action'];
+const GROUP_ORDER: PaletteItem['group'][] = ['project', 'route', 'content', 'video', 'page', 'action'];
 
 const SUGGESTIONS = ['copilot', 'skill', '3d', 'prompt', 'benchmark'];
 
@@ -56,10 +62,26 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
   const [sel, setSel] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLDivElement>(null);
+  // Page content index; until it arrives (or if it fails) the palette works without it
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+
+  useEffect(() => {
+    if (!open || index) return;
+    let alive = true;
+    loadSearchIndex()
+      .then((loaded) => {
+        if (alive) setIndex(loaded);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [open, index]);
 
   /* ---------- build the searchable index ---------- */
   const items = useMemo<PaletteItem[]>(() => {
     const out: PaletteItem[] = [];
+    const pinyinOf = (txt: LocalizedText) => index?.pinyin[txt.zh] ?? '';
 
     for (const p of PROJECTS) {
       const internal = p.links.find((l) => l.kind === 'internal');
@@ -70,7 +92,7 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
         title: p.title,
         meta: p.year,
         chip: (p.category ?? 'ai').toUpperCase(),
-        haystack: [p.title.en, p.title.zh, p.tagline.en, p.tagline.zh, p.tags.join(' '), p.id]
+        haystack: [p.title.en, p.title.zh, pinyinOf(p.title), p.tagline.en, p.tagline.zh, p.tags.join(' '), p.id]
           .join(' ')
           .toLowerCase(),
         run: () => {
@@ -80,6 +102,23 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
       });
     }
 
+    // Pages from the route table that no project card already links to
+    const linked = new Set(PROJECTS.flatMap((p) => p.links.filter((l) => l.kind === 'internal').map((l) => l.href)));
+    for (const r of ROUTES as readonly RouteDef[]) {
+      if (r.id === 'home' || r.path.includes(':') || linked.has(r.path)) continue;
+      out.push({
+        key: `r-${r.id}`,
+        group: 'route',
+        title: r.label,
+        meta: r.path,
+        chip: r.category.toUpperCase(),
+        haystack: [r.label.en, r.label.zh, pinyinOf(r.label), r.description.en, r.description.zh, r.title, r.path]
+          .join(' ')
+          .toLowerCase(),
+        run: () => onNavigate(r.path),
+      });
+    }
+
     for (const v of videos) {
       out.push({
         key: `v-${v.id}`,
@@ -131,7 +170,7 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
     }
 
     return out;
-  }, [videos, onNavigate, goToSection, toggleTheme]);
+  }, [videos, onNavigate, goToSection, toggleTheme, index]);
 
   /* ---------- filter ---------- */
   const results = useMemo(() => {
@@ -146,8 +185,19 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
       ];
     }
     const words = q.split(/\s+/).filter(Boolean);
-    return items.filter((i) => words.every((w) => i.haystack.includes(w)));
-  }, [items, query]);
+    const content: PaletteItem[] = index
+      ? searchDocs(index, q).map((doc) => ({
+          key: `c-${doc.href}`,
+          group: 'content',
+          title: doc.title,
+          meta: doc.href.replace(/[?#].*$/, ''),
+          chip: doc.chip,
+          haystack: '',
+          run: () => onNavigate(doc.href),
+        }))
+      : [];
+    return [...items.filter((i) => words.every((w) => i.haystack.includes(w))), ...content];
+  }, [items, query, index, onNavigate]);
 
   // Stable render order: group by GROUP_ORDER, keep a flat index for keyboard nav.
   const grouped = useMemo(() => {
@@ -230,7 +280,7 @@ const SearchPalette: React.FC<Props> = ({ open, onClose, t, videos, onNavigate,
             ref={inputRef}
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder={t({ en: 'Search projects, videos, pages…', zh: '搜索项目、视频、页面…' })}
+            placeholder={t({ en: 'Search projects, prompts, skills, videos…', zh: '搜索项目、提示词、技能、视频…' })}
             aria-label={t({ en: 'Search', zh: '搜索' })}
             className="min-w-0 flex-1 bg-transparent text-[15px] text-ink outline-none placeholder:text-ink/35"
           />
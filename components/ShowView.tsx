@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { ShowCamera, ShowChannel, ShowConfig } from '../services/showSync';
+import type { CloudRotation } from './particleDynamics';
+
+interface ShowViewProps {
+  config: ShowConfig;
+  epoch: number | null; // Shared clock origin; null until a follower has heard from the controller
+  channel: ShowChannel | null;
+  remoteCamera: React.RefObject<ShowCamera | null>; // Latest controller camera (followers)
+  cloudRotation: React.RefObject<CloudRotation | null>; // Controller: the particle system's current rotation
+}
+
+const CAMERA_INTERVAL = 1 / 30; // Seconds between camera broadcasts
+
+/**
+ * Per-window part of a multi-screen show, mounted inside the Canvas:
+ * - renders this window's column of one wide virtual frustum (setViewOffset)
+ * - drives the animation clock from the shared epoch so time-based effects line up
+ * - the controller broadcasts its camera and cloud rotation, followers copy them
+ */
+export const ShowView: React.FC<ShowViewProps> = ({ config, epoch, channel, remoteCamera, cloudRotation }) => {
+  const camera = useThree((state) => state.camera);
+  const size = useThree((state) => state.size);
+  const sinceBroadcast = useRef(0);
+
+  useEffect(() => {
+    if (!(camera instanceof THREE.PerspectiveCamera) || config.columns <= 1) return;
+    const { width, height } = size;
+    camera.setViewOffset(width * config.columns, height, width * config.column, 0, width, height);
+    return () => camera.clearViewOffset();
+  }, [camera, size, config.column, config.columns]);
+
+  // Runs before the particle systems (negative priority) so they all read the shared time
+  useFrame((state) => {
+    if (epoch !== null) state.clock.elapsedTime = (Date.now() - epoch) / 1000;
+  }, -1);
+
+  useFrame((state, delta) => {
+    if (config.role === 'follower') {
+      const remote = remoteCamera.current;
+      if (remote) {
+        state.camera.position.fromArray(remote.position);
+        state.camera.quaternion.fromArray(remote.quaternion);
+      }
+      return;
+    }
+
+    sinceBroadcast.current += delta;
+    if (!channel || sinceBroadcast.current < CAMERA_INTERVAL) return;
+    sinceBroadcast.current = 0;
+    channel.post({
+      type: 'camera',
+      camera: {
+        position: state.camera.position.toArray() as ShowCamera['position'],
+        quaternion: state.camera.quaternion.toArray() as ShowCamera['quaternion'],
+        cloudRotation: cloudRotation.current,
+      },
+    });
+  });
+
+  return null;
+};
@@ -0,0 +1,354 @@
+import * as THREE from 'three';
+import { AudioAnalyzer, AudioMapping } from '../services/audioAnalyzer';
+
+// Cloud-wide burst state shared by the CPU and GPU simulation paths.
+// Per-particle effects read these scalars; they are updated once per frame.
+export interface ParticleDynamics {
+  tensionVelocity: number;
+  prevTension: number;
+  burstEnergy: number;
+  shockwaveRadius: number;
+  explosionPhase: number;
+  cumulativeExplosion: number;
+}
+
+export interface BurstTrigger {
+  id: number; // Bump to fire again with the same strength
+  strength: number; // 0..1
+}
+
+export const createParticleDynamics = (tension: number): ParticleDynamics => ({
+  tensionVelocity: 0,
+  prevTension: tension,
+  burstEnergy: 0,
+  shockwaveRadius: 0,
+  explosionPhase: 0,
+  cumulativeExplosion: 0,
+});
+
+// Advance the burst/shockwave state for this frame and return the spring morph speed
+export const stepParticleDynamics = (d: ParticleDynamics, tension: number, delta: number): number => {
+  // Calculate tension velocity (how fast the hand is opening/closing)
+  const tensionDelta = tension - d.prevTension;
+  d.tensionVelocity = d.tensionVelocity * 0.85 + tensionDelta * 15;
+  d.prevTension = tension;
+
+  // ========================================
+  // EXPLOSIVE BURST DETECTION
+  // ========================================
+  // Detect rapid opening (tension dropping quickly)
+  const isOpening = tensionDelta < -0.015;
+  const openingSpeed = Math.abs(Math.min(tensionDelta, 0));
+
+  // Accumulate burst energy when opening rapidly
+  if (isOpening) {
+    d.burstEnergy = Math.min(d.burstEnergy + openingSpeed * 25, 5);
+    d.explosionPhase = Math.min(d.explosionPhase + openingSpeed * 30, 1);
+    d.cumulativeExplosion = Math.min(d.cumulativeExplosion + openingSpeed * 10, 2);
+  }
+
+  // Shockwave expands outward
+  if (d.burstEnergy > 0.5) {
+    d.shockwaveRadius += delta * 15 * d.burstEnergy;
+  }
+
+  // Decay effects
+  d.burstEnergy *= 0.92;
+  d.explosionPhase *= 0.95;
+  d.cumulativeExplosion *= 0.98;
+  d.shockwaveRadius *= 0.96;
+
+  // Dynamic morph speed - FASTER RESPONSE
+  const baseMorphSpeed = 8.0; // Increased from 5.0
+  return (baseMorphSpeed + Math.abs(d.tensionVelocity) * 6) * delta; // Increased multiplier
+};
+
+// External burst (gesture action, beat, ...) - same energy a fast hand opening would add
+export const triggerBurst = (d: ParticleDynamics, strength: number) => {
+  d.burstEnergy = Math.min(d.burstEnergy + strength * 5, 5);
+  d.explosionPhase = Math.min(d.explosionPhase + strength, 1);
+  d.cumulativeExplosion = Math.min(d.cumulativeExplosion + strength * 2, 2);
+};
+
+export interface AudioReactive {
+  analyzer: AudioAnalyzer;
+  mapping: AudioMapping;
+}
+
+/**
+ * Sample the audio input for this frame: returns the tension to simulate with
+ * (louder = more expanded) and a hue offset, and fires a burst on beat onsets.
+ */
+export const applyAudio = (
+  d: ParticleDynamics,
+  audio: AudioReactive | null,
+  tension: number
+): { tension: number; hueShift: number } => {
+  if (!audio) return { tension, hueShift: 0 };
+
+  const levels = audio.analyzer.sample();
+  const { mapping } = audio;
+  if (mapping.burst && levels.beat) {
+    triggerBurst(d, Math.min(levels.bass, 1) * 0.6);
+  }
+  return {
+    tension: mapping.tension === 'off' ? tension : Math.max(0, 1 - levels[mapping.tension] * 1.5),
+    hueShift: mapping.color === 'off' ? 0 : levels[mapping.color] * 0.5,
+  };
+};
+
+export type ForceMode = 'attract' | 'repel' | 'vortex';
+
+export const FORCE_MODES: ForceMode[] = ['attract', 'repel', 'vortex'];
+
+// Hand cursor acting on the cloud; x/y in normalized screen space like HandPose.position
+export interface ForceCursor {
+  x: number;
+  y: number;
+  strength: number; // 0..1, from pinch
+  mode: ForceMode;
+}
+
+// Cursor resolved into the particles' local space for one frame
+export interface ForceField {
+  center: THREE.Vector3;
+  axis: THREE.Vector3; // Vortex spin axis (camera view direction)
+  strength: number;
+  mode: ForceMode;
+}
+
+export const FORCE_RADIUS = 2.5;
+
+export const createForceField = (): ForceField => ({
+  center: new THREE.Vector3(),
+  axis: new THREE.Vector3(0, 0, -1),
+  strength: 0,
+  mode: 'attract',
+});
+
+const viewDirection = new THREE.Vector3();
+const inverseRotation = new THREE.Quaternion();
+
+// Project the cursor onto the camera-facing plane through the origin
+export const cursorToWorld = (cursor: ForceCursor, camera: THREE.Camera, out: THREE.Vector3): THREE.Vector3 => {
+  camera.getWorldDirection(viewDirection);
+  out.set(cursor.x, cursor.y, 0.5).unproject(camera).sub(camera.position).normalize();
+  const t = -camera.position.dot(viewDirection) / (out.dot(viewDirection) || 1);
+  return out.multiplyScalar(t).add(camera.position);
+};
+
+// Update the field for this frame (strength 0 when there is no cursor)
+export const updateForceField = (
+  field: ForceField,
+  cursor: ForceCursor | null,
+  camera: THREE.Camera,
+  object: THREE.Object3D
+) => {
+  if (!cursor) {
+    field.strength = 0;
+    return;
+  }
+  object.worldToLocal(cursorToWorld(cursor, camera, field.center));
+  object.getWorldQuaternion(inverseRotation).invert();
+  camera.getWorldDirection(field.axis).applyQuaternion(inverseRotation);
+  field.strength = cursor.strength;
+  field.mode = cursor.mode;
+};
+
+// Displacement of a target position at p; falls off smoothly to zero at FORCE_RADIUS
+export const forceOffset = (field: ForceField, px: number, py: number, pz: number, out: THREE.Vector3): THREE.Vector3 => {
+  const dx = px - field.center.x;
+  const dy = py - field.center.y;
+  const dz = pz - field.center.z;
+  const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (field.strength <= 0 || dist >= FORCE_RADIUS) return out.set(0, 0, 0);
+
+  const falloff = (1 - dist / FORCE_RADIUS) ** 2 * field.strength;
+  const inv = dist > 0.001 ? 1 / dist : 0;
+  switch (field.mode) {
+    case 'attract':
+      return out.set(-dx, -dy, -dz).multiplyScalar(falloff);
+    case 'repel':
+      return out.set(dx, dy, dz).multiplyScalar(inv * falloff * FORCE_RADIUS);
+    case 'vortex':
+      // Swirl around the view axis
+      return out.set(dx, dy, dz).cross(field.axis).multiplyScalar(-inv * falloff * FORCE_RADIUS);
+  }
+};
+
+// Dynamic rotation - explosive spin when opening (spin=false keeps the tilt/wobble only)
+export const applyCloudRotation = (
+  object: THREE.Object3D,
+  d: ParticleDynamics,
+  tension: number,
+  delta: number,
+  time: number,
+  spin: boolean = true
+) => {
+  const baseRotation = 0.15;
+  const burstRotation = d.burstEnergy * 0.8;
+  const velocityRotation = Math.abs(d.tensionVelocity) * 0.6;
+  const rotationSpeed = (baseRotation + velocityRotation + burstRotation) * (1 - tension * 0.5);
+  if (spin) {
+    object.rotation.y += delta * rotationSpeed;
+  }
+
+  // Tilt and wobble
+  object.rotation.x = Math.sin(time * 0.5) * 0.15 * (1 - tension) + d.burstEnergy * 0.1;
+  object.rotation.z = Math.cos(time * 0.3) * 0.05 * d.burstEnergy;
+};
+
+// Euler xyz of the cloud
+export type CloudRotation = [number, number, number];
+
+// Multi-screen show: spin is integrated from each window's own frame deltas, so the
+// controller publishes its rotation and followers copy it instead
+export interface RotationSync {
+  rotation: { current: CloudRotation | null };
+  follow: boolean;
+}
+
+export const syncCloudRotation = (object: THREE.Object3D, sync: RotationSync | null) => {
+  if (!sync) return;
+  const { rotation } = object;
+  if (!sync.follow) sync.rotation.current = [rotation.x, rotation.y, rotation.z];
+  else if (sync.rotation.current) rotation.fromArray(sync.rotation.current);
+};
+
+// Material GLOW for the current frame
+export const cloudGlow = (d: ParticleDynamics, tension: number, time: number): { opacity: number; size: number } => {
+  // Intense glow during burst
+  const baseOpacity = 0.75;
+  const burstGlow = d.burstEnergy * 0.25;
+  const openGlow = (1 - tension) * 0.25;
+
+  // Particle size changes dramatically
+  const baseSize = 0.035;
+  const openSize = (1 - tension) * 0.04;
+  const burstSize = d.burstEnergy * 0.03;
+  const pulseSize = Math.sin(time * 8) * 0.005 * d.burstEnergy;
+
+  return {
+    opacity: Math.min(baseOpacity + burstGlow + openGlow, 1),
+    size: baseSize + openSize + burstSize + pulseSize,
+  };
+};
+
+// ========================================
+// COLOR PALETTES
+// ========================================
+// 'source' keeps the colors of the image/emoji the shape was sampled from
+export type ColorMode = 'solid' | 'radius' | 'height' | 'velocity' | 'source';
+
+export const COLOR_MODES: ColorMode[] = ['solid', 'radius', 'height', 'velocity', 'source'];
+
+export interface ColorPalette {
+  name: string;
+  stops: string[];
+}
+
+export const PALETTES: ColorPalette[] = [
+  { name: 'Aurora', stops: ['#22d3ee', '#4ade80', '#a78bfa'] },
+  { name: 'Sunset', stops: ['#fbbf24', '#f97316', '#ec4899', '#8b5cf6'] },
+  { name: 'Ocean', stops: ['#e0f2fe', '#0ea5e9', '#1e40af'] },
+  { name: 'Fire', stops: ['#fef08a', '#f97316', '#dc2626'] },
+  { name: 'Neon', stops: ['#f0abfc', '#22d3ee', '#a3e635'] },
+  { name: 'Rainbow', stops: ['#ef4444', '#f59e0b', '#84cc16', '#06b6d4', '#6366f1', '#d946ef'] },
+];
+
+// Match by value - a coloring that went through JSON or postMessage holds a copy of the stops
+export const findPalette = (stops: string[]): ColorPalette | undefined =>
+  PALETTES.find((p) => p.stops.length === stops.length && p.stops.every((stop, i) => stop === stops[i]));
+
+export const MAX_PALETTE_STOPS = 8; // Size of the palette uniform array in the GPU shader
+
+export interface ParticleColoring {
+  mode: ColorMode;
+  palette: string[]; // Gradient stops
+  speed: number; // How fast the gradient slides through the cloud (palette lengths per second)
+}
+
+export const DEFAULT_COLORING: ParticleColoring = { mode: 'solid', palette: PALETTES[0].stops, speed: 0.1 };
+
+// Gradient inputs are divided by these before the palette lookup
+export const RADIUS_RANGE = 5;
+export const HEIGHT_RANGE = 10;
+export const VELOCITY_RANGE = 0.3; // Per-frame displacement that reaches the end of the palette
+
+// Palette stops for this frame, hue-shifted the same way as the solid color
+export const resolvePalette = (stops: string[], hueShift: number, out: THREE.Color[]): THREE.Color[] => {
+  out.length = Math.max(1, Math.min(stops.length, MAX_PALETTE_STOPS));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = (out[i] ?? new THREE.Color()).set(stops[i] ?? '#ffffff').offsetHSL(hueShift, 0, 0);
+  }
+  return out;
+};
+
+// Ping-pong lookup so an animated offset sweeps back and forth without a hard seam
+export const samplePalette = (palette: THREE.Color[], t: number, out: THREE.Color): THREE.Color => {
+  let f = t - Math.floor(t / 2) * 2;
+  if (f > 1) f = 2 - f;
+  f *= palette.length - 1;
+  const i = Math.floor(f);
+  return out.copy(palette[i]).lerp(palette[Math.min(i + 1, palette.length - 1)], f - i);
+};
+
+const sourceColor = new THREE.Color();
+const paletteColor = new THREE.Color();
+
+/**
+ * Fill per-particle vertex colors for the CPU path (the GPU path runs the same
+ * logic in its vertex shader). Gradients read the rest position so they follow the
+ * shape rather than the explosion; in 'source' mode grey pixels (plain text,
+ * monochrome logos) take the base color and colored ones keep their own.
+ */
+export const writeParticleColors = (
+  out: Float32Array,
+  count: number,
+  mode: ColorMode,
+  base: THREE.Color,
+  palette: THREE.Color[],
+  offset: number,
+  rest: Float32Array,
+  velocities: Float32Array,
+  source: Float32Array | null
+) => {
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    let t = 0;
+    switch (mode) {
+      case 'solid':
+        paletteColor.copy(base);
+        break;
+      case 'source': {
+        if (!source) {
+          paletteColor.copy(base);
+          break;
+        }
+        const r = source[i3];
+        const g = source[i3 + 1];
+        const b = source[i3 + 2];
+        const max = Math.max(r, g, b);
+        const k = Math.min((max - Math.min(r, g, b)) * 4, 1);
+        sourceColor.setRGB(r, g, b);
+        paletteColor.setRGB(base.r * max, base.g * max, base.b * max).lerp(sourceColor, k);
+        break;
+      }
+      case 'radius':
+        t = Math.sqrt(rest[i3] ** 2 + rest[i3 + 1] ** 2 + rest[i3 + 2] ** 2) / RADIUS_RANGE;
+        break;
+      case 'height':
+        t = rest[i3 + 1] / HEIGHT_RANGE + 0.5;
+        break;
+      case 'velocity':
+        t = Math.min(Math.sqrt(velocities[i3] ** 2 + velocities[i3 + 1] ** 2 + velocities[i3 + 2] ** 2) / VELOCITY_RANGE, 1);
+        break;
+    }
+    if (mode !== 'solid' && mode !== 'source') {
+      samplePalette(palette, Math.max(0, Math.min(t, 1)) + offset, paletteColor);
+    }
+    out[i3] = paletteColor.r;
+    out[i3 + 1] = paletteColor.g;
+    out[i3 + 2] = paletteColor.b;
+  }
+};
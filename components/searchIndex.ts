@@ -0,0 +1,102 @@
+import type { LocalizedText } from '../i18n';
+
+/* ---------------------------------------------------------------------------
+ * Site search index — the content inside pages (prompts, templates, patterns,
+ * benchmark tests, CAT skills, 3D scene prompts), generated at build time by
+ * scripts/build-search-index.mjs into public/search-index.json and fetched
+ * the first time the ⌘K palette opens.
+ * ------------------------------------------------------------------------- */
+
+export interface SearchDoc {
+  /** Deep link to the item on its page: /lab3d/26, /bench#svg-pelican… */
+  href: string;
+  /** Short uppercase tag shown in the palette row. */
+  chip: string;
+  title: LocalizedText;
+  /** Everything else worth matching — descriptions, tags, clipped prompt text. */
+  body: string;
+}
+
+export interface SearchIndex {
+  docs: SearchDoc[];
+  /** Chinese title → "pinyin initials", e.g. 提示词库 → "tishiciku tsck". */
+  pinyin: Record<string, string>;
+}
+
+export const SEARCH_INDEX_URL = '/search-index.json';
+
+let pending: Promise<SearchIndex> | null = null;
+
+/** Fetch the index once per session; a failed fetch is retried on the next open. */
+export const loadSearchIndex = (): Promise<SearchIndex> => {
+  pending ??= fetch(SEARCH_INDEX_URL)
+    .then((response) => {
+      if (!response.ok) throw new Error(`Search index request failed: ${response.status}`);
+      return response.json() as Promise<SearchIndex>;
+    })
+    .catch((error) => {
+      pending = null;
+      throw error;
+    });
+  return pending;
+};
+
+/**
+ * True when every character of `word` appears in `text` in order and close
+ * together — "ctxtri" is in "context triage", but not scattered across a
+ * sentence.
+ */
+const isNearSubsequence = (word: string, text: string) => {
+  for (let start = text.indexOf(word[0]); start >= 0; start = text.indexOf(word[0], start + 1)) {
+    let at = 1;
+    const end = Math.min(text.length, start + word.length * 3);
+    for (let i = start + 1; i < end && at < word.length; i++) if (text[i] === word[at]) at++;
+    if (at === word.length) return true;
+  }
+  return false;
+};
+
+/**
+ * How well one query word matches: title hits outrank pinyin, pinyin outranks
+ * body text, and a loose in-order match on the title or its pinyin initials is
+ * the last resort ("ctxtri" → Context Triage). 0 means no match.
+ */
+const scoreWord = (word: string, title: string, pinyin: string, body: string) => {
+  const at = title.indexOf(word);
+  if (at === 0) return 12;
+  if (at > 0) return 8;
+  if (pinyin.includes(word)) return 6;
+  if (body.includes(word)) return 3;
+  const initials = pinyin.slice(pinyin.indexOf(' ') + 1);
+  if (word.length >= 3 && (isNearSubsequence(word, title) || isNearSubsequence(word, initials))) return 1;
+  return 0;
+};
+
+/**
+ * Rank docs against a query, matching English, Chinese and pinyin regardless
+ * of the UI language. Every word must match somewhere; best `limit` first.
+ */
+export const searchDocs = (index: SearchIndex, query: string, limit = 8): SearchDoc[] => {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return [];
+  const scored: { doc: SearchDoc; score: number }[] = [];
+  for (const doc of index.docs) {
+    const title = `${doc.title.en}\n${doc.title.zh}`.toLowerCase();
+    const pinyin = index.pinyin[doc.title.zh] ?? '';
+    const body = doc.body.toLowerCase();
+    let score = 0;
+    for (const word of words) {
+      const s = scoreWord(word, title, pinyin, body);
+      if (!s) {
+        score = 0;
+        break;
+      }
+      score += s;
+    }
+    if (score) scored.push({ doc, score });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((s) => s.doc);
+};
@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /copilot — a native, bilingual rebuild of 大雷's "Microsoft Copilot / Agent
@@ -7,36 +8,6 @@ import React, { useEffect, useState } from 'react';
  * and translatable. Source: 大雷's own summary infographic.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface LocalizedText { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 interface Product {
   name: string;
   badge: LocalizedText;
@@ -174,16 +145,8 @@ const CreditDots: React.FC<{ level: number }> = ({ level }) => (
 interface Props { onHome: () => void }
 
 const Copilot: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => {
-    if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang);
-  }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
-  const LANGS: { code: Lang; label: string }[] = [
-    { code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' },
-  ];
   const ATTR = {
     license: { en: 'License', zh: '许可证' },
     credit: { en: 'Credit usage', zh: 'Credit 消耗' },
@@ -199,7 +162,7 @@ const Copilot: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Field note · 2026-06</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>
                   {l.label}
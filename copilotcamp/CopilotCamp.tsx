@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { isChinese, LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /copilotcamp — a Khan-Academy-style, bilingual learning course rebuilt from
@@ -13,62 +14,32 @@ import React, { useEffect, useMemo, useState } from 'react';
  * Screenshots are vendored into /public/copilot-cowork/ and served from this repo.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const LANG_KEY = 'dalei-lang-v2';
 const PROGRESS_KEY = 'copilotcamp-progress-v1';
 
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(LANG_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ---------- content model ------------------------------------------------ */
 
 type Block =
-  | { t: 'p'; x: T }
-  | { t: 'h'; x: T }
-  | { t: 'quote'; x: T }
-  | { t: 'list'; x: T[] }
+  | { t: 'p'; x: LocalizedText }
+  | { t: 'h'; x: LocalizedText }
+  | { t: 'quote'; x: LocalizedText }
+  | { t: 'list'; x: LocalizedText[] }
   | { t: 'prompt'; x: string }
-  | { t: 'figure'; src: string; alt: T; cap: T }
-  | { t: 'note'; kind: T; x: T; accent?: string }
-  | { t: 'cards'; x: { title: string; body: T }[] }
-  | { t: 'chips'; label: T; items: string[] };
+  | { t: 'figure'; src: string; alt: LocalizedText; cap: LocalizedText }
+  | { t: 'note'; kind: LocalizedText; x: LocalizedText; accent?: string }
+  | { t: 'cards'; x: { title: string; body: LocalizedText }[] }
+  | { t: 'chips'; label: LocalizedText; items: string[] };
 
-interface Quiz { q: T; options: T[]; answer: number; why: T }
+interface Quiz { q: LocalizedText; options: LocalizedText[]; answer: number; why: LocalizedText }
 
 interface Lesson {
   id: string;
-  title: T;
+  title: LocalizedText;
   minutes: number;
   blocks: Block[];
   quiz?: Quiz;
-  takeaway: T;
+  takeaway: LocalizedText;
 }
-interface Unit { n: string; title: T; sub: T; lessons: Lesson[] }
+interface Unit { n: string; title: LocalizedText; sub: LocalizedText; lessons: Lesson[] }
 
 const IMG = '/copilot-cowork';
 
@@ -438,7 +409,7 @@ const Prompt: React.FC<{ text: string; label: string; copied: string }> = ({ tex
   );
 };
 
-const BlockView: React.FC<{ b: Block; tr: (x: T) => string; promptLabel: string; copied: string }> = ({ b, tr, promptLabel, copied }) => {
+const BlockView: React.FC<{ b: Block; tr: (x: LocalizedText) => string; promptLabel: string; copied: string }> = ({ b, tr, promptLabel, copied }) => {
   switch (b.t) {
     case 'p':
       return <p className="my-4 text-[15px] leading-relaxed text-ink/75">{tr(b.x)}</p>;
@@ -496,7 +467,7 @@ const BlockView: React.FC<{ b: Block; tr: (x: T) => string; promptLabel: string;
 
 /* ---------- knowledge check ---------------------------------------------- */
 
-const KnowledgeCheck: React.FC<{ quiz: Quiz; tr: (x: T) => string; labels: Record<string, string> }> = ({ quiz, tr, labels }) => {
+const KnowledgeCheck: React.FC<{ quiz: Quiz; tr: (x: LocalizedText) => string; labels: Record<string, string> }> = ({ quiz, tr, labels }) => {
   const [picked, setPicked] = useState<number | null>(null);
   const correct = picked === quiz.answer;
   return (
@@ -538,10 +509,7 @@ const KnowledgeCheck: React.FC<{ quiz: Quiz; tr: (x: T) => string; labels: Recor
 interface Props { onHome: () => void }
 
 const CopilotCamp: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const tr = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(LANG_KEY, lang); }, [lang]);
+  const { lang, setLang, t: tr } = useI18n();
 
   const [current, setCurrent] = useState(0); // index into ALL_LESSONS; 0 reserved handling below
   const [done, setDone] = useState<Set<string>>(() => {
@@ -572,8 +540,6 @@ const CopilotCamp: React.FC<Props> = ({ onHome }) => {
     lessons: tr({ en: 'lessons', zh: '节' }),
   };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   const goto = (i: number) => { setCurrent(i); setShowOutline(false); window.scrollTo({ top: 0, behavior: 'smooth' }); };
   const markComplete = () => {
     setDone((d) => new Set(d).add(lesson.id));
@@ -635,7 +601,7 @@ const CopilotCamp: React.FC<Props> = ({ onHome }) => {
               <div className="h-full rounded-full bg-gold transition-all duration-500" style={{ width: `${pct}%` }} />
             </div>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
@@ -684,7 +650,7 @@ const CopilotCamp: React.FC<Props> = ({ onHome }) => {
           {/* lesson header */}
           <div className="mt-4 lg:mt-0">
             <p className="font-mono text-[11px] uppercase tracking-[0.22em] text-gold">
-              {tr({ en: 'Unit', zh: '单元' })} {loc.unit} · {tr(loc.unitTitle)} — {tr({ en: 'Lesson', zh: '第' })} {loc.lesson} {lang === 'en' ? '' : tr({ en: '', zh: '节' })}
+              {tr({ en: 'Unit', zh: '单元' })} {loc.unit} · {tr(loc.unitTitle)} — {tr({ en: 'Lesson', zh: '第' })} {loc.lesson} {isChinese(lang) ? tr({ en: '', zh: '节' }) : ''}
             </p>
             <h1 className="mt-2 font-display text-3xl font-semibold tracking-tight sm:text-4xl">{tr(lesson.title)}</h1>
             <p className="mt-2 font-mono text-[11px] text-ink/45">~{lesson.minutes} {labels.min} · {done.has(lesson.id) ? `✓ ${labels.completed}` : `${tr({ en: 'Lesson', zh: '第' })} ${current + 1}/${ALL_LESSONS.length}`}</p>
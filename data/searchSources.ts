@@ -0,0 +1,66 @@
+import { TEMPLATES } from '../agents/data';
+import { TESTS } from '../bench/data/bench';
+import { CAT_SKILLS } from '../catskills/data/catalog';
+import { LAB_PROMPTS } from '../lab3d/data';
+import { COMPOSITION, LAYERS, patternId, type Pattern } from '../patterns/data';
+import { PROMPTS } from '../prompts/data';
+import type { SearchDoc } from '../components/searchIndex';
+
+/* ---------------------------------------------------------------------------
+ * Everything the ⌘K palette can find inside pages, one entry per item with a
+ * deep link back to it. Only scripts/build-search-index.mjs imports this — the
+ * browser gets the generated JSON, never these data modules.
+ * ------------------------------------------------------------------------- */
+
+// Long prompt bodies only need their opening to be findable
+const clip = (text: string, max = 280) => (text.length > max ? text.slice(0, max) : text);
+
+const join = (...parts: (string | undefined)[]) => parts.filter(Boolean).join('\n');
+
+const patternDoc = (p: Pattern, layer: string): SearchDoc => ({
+  href: `/patterns/${patternId(p)}`,
+  chip: 'PATTERN',
+  title: p.name,
+  body: join(p.desc.en, p.desc.zh, layer),
+});
+
+export const collectSearchDocs = (): SearchDoc[] => [
+  ...PROMPTS.map((p, i) => ({
+    href: `/prompts/${i + 1}`,
+    chip: 'PROMPT',
+    title: { en: p.act, zh: p.act },
+    body: clip(p.prompt),
+  })),
+  ...TEMPLATES.map((tpl) => ({
+    href: `/agents/${tpl.id}`,
+    chip: 'AGENT',
+    title: tpl.title,
+    body: join(
+      tpl.oneLiner.en,
+      tpl.oneLiner.zh,
+      tpl.tools.join(' '),
+      ...tpl.tasks.flatMap((task) => [task.en, task.zh]),
+      clip(tpl.prompt)
+    ),
+  })),
+  ...LAYERS.flatMap((layer) => layer.patterns.map((p) => patternDoc(p, `${layer.name.en} ${layer.name.zh}`))),
+  ...COMPOSITION.map((p) => patternDoc(p, 'Composition 组合')),
+  ...TESTS.map((test) => ({
+    href: `/bench#${test.id}`,
+    chip: 'BENCH',
+    title: test.title,
+    body: join(test.whatItTests.en, test.whatItTests.zh, test.category, clip(test.prompt)),
+  })),
+  ...CAT_SKILLS.map((skill) => ({
+    href: `/cat-skills?skill=${skill.slug}`,
+    chip: 'SKILL',
+    title: { en: skill.name, zh: skill.name },
+    body: join(clip(skill.description), skill.tags.join(' '), skill.platforms.join(' '), skill.author),
+  })),
+  ...LAB_PROMPTS.map((p) => ({
+    href: `/lab3d/${p.n}`,
+    chip: '3D',
+    title: { en: p.title, zh: p.title },
+    body: join(p.section.label.en, p.section.label.zh, clip(p.text)),
+  })),
+];
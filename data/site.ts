@@ -1,11 +1,6 @@
-// 'zhHant' (繁體) is derived at runtime from the 'zh' (简体) strings via OpenCC,
-// so LocalizedText only stores en + zh.
-export type Lang = 'en' | 'zh' | 'zhHant';
+import type { LocalizedText } from '../i18n';
 
-export interface LocalizedText {
-  en: string;
-  zh: string;
-}
+export type { Lang, LocalizedText } from '../i18n';
 
 export interface ProjectLink {
   label: LocalizedText;
@@ -1075,26 +1070,33 @@ export async function fetchLatestVideos(limit = 6): Promise<VideoItem[]> {
 
 export const COPY = {
   nav: {
-    home: { en: 'Home', zh: '首页' },
-    work: { en: 'Work', zh: '作品' },
-    videos: { en: 'Videos', zh: '视频' },
-    about: { en: 'About', zh: '关于' },
-    now: { en: 'Now', zh: '近况' },
-    connect: { en: 'Connect', zh: '联系' },
+    home: { en: 'Home', zh: '首页', ja: 'ホーム', ko: '홈' },
+    work: { en: 'Work', zh: '作品', ja: '作品', ko: '작업' },
+    videos: { en: 'Videos', zh: '视频', ja: '動画', ko: '영상' },
+    about: { en: 'About', zh: '关于', ja: '紹介', ko: '소개' },
+    now: { en: 'Now', zh: '近况', ja: '近況', ko: '근황' },
+    connect: { en: 'Connect', zh: '联系', ja: '連絡', ko: '연락' },
   },
   hero: {
-    eyebrow: { en: 'AI automation · Creative coding · Running', zh: 'AI 自动化 · 创意编程 · 跑步' },
-    greeting: { en: "Hey, I'm Da Lei.", zh: '嘿，我是大雷。' },
-    titleLine1: { en: 'I build useful AI tools.', zh: '用 AI，把想法做出来。' },
-    titleLine2: { en: 'Then share what works.', zh: '把管用的方法公开分享。' },
+    eyebrow: {
+      en: 'AI automation · Creative coding · Running',
+      zh: 'AI 自动化 · 创意编程 · 跑步',
+      ja: 'AI 自動化 · クリエイティブコーディング · ランニング',
+      ko: 'AI 자동화 · 크리에이티브 코딩 · 러닝',
+    },
+    greeting: { en: "Hey, I'm Da Lei.", zh: '嘿，我是大雷。', ja: 'こんにちは、大雷です。', ko: '안녕하세요, 다레이입니다.' },
+    titleLine1: { en: 'I build useful AI tools.', zh: '用 AI，把想法做出来。', ja: '役立つ AI ツールを作り、', ko: '쓸모 있는 AI 도구를 만들고,' },
+    titleLine2: { en: 'Then share what works.', zh: '把管用的方法公开分享。', ja: '効いた方法を公開します。', ko: '효과 있는 방법을 공유합니다.' },
     intro: {
       en: 'I share hands-on AI workflows on YouTube and keep shipping open-source tools and creative coding experiments.',
       zh: '我在 YouTube 分享 AI 实战，也持续发布开源工具和创意编程实验。',
+      ja: 'YouTube で実践的な AI ワークフローを紹介しながら、オープンソースのツールとクリエイティブコーディングの実験を発表し続けています。',
+      ko: 'YouTube에서 실전 AI 워크플로를 소개하고, 오픈소스 도구와 크리에이티브 코딩 실험을 꾸준히 공개합니다.',
     },
-    ctaWork: { en: 'Browse selected work', zh: '浏览精选作品' },
-    ctaVideo: { en: 'Watch latest videos', zh: '观看最新视频' },
-    ctaLaunch: { en: 'Launch Kinetic Particles', zh: '体验 Kinetic Particles' },
-    availability: { en: 'Open to collaborations', zh: '开放合作' },
+    ctaWork: { en: 'Browse selected work', zh: '浏览精选作品', ja: '作品を見る', ko: '작업 둘러보기' },
+    ctaVideo: { en: 'Watch latest videos', zh: '观看最新视频', ja: '最新動画を見る', ko: '최신 영상 보기' },
+    ctaLaunch: { en: 'Launch Kinetic Particles', zh: '体验 Kinetic Particles', ja: 'Kinetic Particles を起動', ko: 'Kinetic Particles 실행' },
+    availability: { en: 'Open to collaborations', zh: '开放合作', ja: 'コラボ募集中', ko: '협업 환영' },
   },
   work: {
     label: { en: 'Selected work', zh: '精选作品' },
@@ -1,4 +1,5 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /designskill — a curated field note on 乔木 (Qiaomu, @vista8)'s "Design Skill
@@ -9,27 +10,6 @@ import React, { useEffect, useState } from 'react';
  * on his site; go read the original. Native + bilingual (繁 on the fly).
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface LocalizedText { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 interface Variant {
   key: string;
   accent: string;
@@ -156,10 +136,7 @@ const G_VARIANTS = ['baseline', 'frontend-design', 'web-design-guidelines', 'ui-
 interface Props { onHome: () => void }
 
 const DesignSkill: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   // Live gallery selection — default to the landing task, its winning variant.
   const [gTask, setGTask] = useState('landing');
@@ -167,8 +144,6 @@ const DesignSkill: React.FC<Props> = ({ onHome }) => {
   const galleryUrl = `${GALLERY_BASE}/${gVariant}/${gTask}.html`;
   const pickTask = (id: string) => { setGTask(id); setGVariant(G_TASKS.find((x) => x.id === id)!.winner); };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -177,7 +152,7 @@ const DesignSkill: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Design Skill Lab</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
@@ -1,6 +1,7 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /farmer — "农夫过河" 3D logic game (an extended wolf-goat-cabbage puzzle).
@@ -15,34 +16,13 @@ import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
  * powers Hint and Auto-solve. Built with Three.js (low-poly, from primitives).
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ============================ game model =============================== */
 
 type Id = 'apple' | 'chicken' | 'sheep' | 'snake' | 'tiger';
 type Side = 'L' | 'R';
 const other = (s: Side): Side => (s === 'L' ? 'R' : 'L');
 
-interface EntMeta { id: Id; slot: number; emoji: string; label: T }
+interface EntMeta { id: Id; slot: number; emoji: string; label: LocalizedText }
 const ENTS: EntMeta[] = [
   { id: 'apple', slot: 0, emoji: '🍎', label: { en: 'apple', zh: '苹果' } },
   { id: 'chicken', slot: 1, emoji: '🐔', label: { en: 'chicken', zh: '鸡' } },
@@ -52,7 +32,7 @@ const ENTS: EntMeta[] = [
 ];
 const ID_LIST = ENTS.map((e) => e.id);
 
-const REASONS: Record<string, T> = {
+const REASONS: Record<string, LocalizedText> = {
   'tiger-sheep': { en: 'The tiger ate the sheep — no chicken was there to stop it.', zh: '老虎吃了羊 —— 没有鸡在场阻止。' },
   'snake-chicken': { en: 'The snake ate the chicken — no tiger was there to stop it.', zh: '蛇吃了鸡 —— 没有老虎在场阻止。' },
   'sheep-apple': { en: 'The sheep ate the apple — no snake was there to stop it.', zh: '羊吃了苹果 —— 没有蛇在场阻止。' },
@@ -199,10 +179,7 @@ const BUILDERS: Record<Id, () => THREE.Group> = { apple: buildApple, chicken: bu
 interface Props { onHome: () => void }
 
 const FarmerRiver: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   const START: Record<Id, Side> = { apple: 'L', chicken: 'L', sheep: 'L', snake: 'L', tiger: 'L' };
   const [pos, setPos] = useState<Record<Id, Side>>({ ...START });
@@ -390,10 +367,8 @@ const FarmerRiver: React.FC<Props> = ({ onHome }) => {
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   useEffect(() => () => { autoTimer.current.forEach((h) => window.clearTimeout(h)); }, []);
-
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
   const onSide = (s: Side) => ENTS.filter((e) => pos[e.id] === s);
-  const RULES: { a: T; unless: T }[] = [
+  const RULES: { a: LocalizedText; unless: LocalizedText }[] = [
     { a: { en: 'Tiger eats sheep', zh: '老虎吃羊' }, unless: { en: 'unless a chicken is there', zh: '鸡在场可阻止' } },
     { a: { en: 'Snake eats chicken', zh: '蛇吃鸡' }, unless: { en: 'unless a tiger is there', zh: '老虎在场可阻止' } },
     { a: { en: 'Sheep eats apple', zh: '羊吃苹果' }, unless: { en: 'unless a snake is there', zh: '蛇在场可阻止' } },
@@ -410,7 +385,7 @@ const FarmerRiver: React.FC<Props> = ({ onHome }) => {
         <div className="pointer-events-auto flex items-center gap-2">
           <span className="hidden rounded-full bg-ink/80 px-3 py-1.5 font-mono text-[11px] text-paper sm:inline">{t({ en: 'Crossings', zh: '渡河' })}: {moves} · {t({ en: 'optimal 9', zh: '最优 9' })}</span>
           <div className="flex overflow-hidden rounded-full border border-ink/15 bg-paper/85 backdrop-blur-md">
-            {LANGS.map((l) => (<button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/60'}`}>{l.label}</button>))}
+            {LANGUAGES.map((l) => (<button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/60'}`}>{l.label}</button>))}
           </div>
         </div>
       </header>
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /fugu — a research report page: an independent, CPU-only reproduction of the
@@ -8,38 +9,7 @@ import React, { useEffect, useRef, useState } from 'react';
  * is hand-waved; the script reruns it.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface LocalizedText { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
 // Simplified → Traditional via OpenCC, lazy-loaded only when 繁體 is chosen.
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => {
-      alive = false;
-    };
-  }, [active, conv]);
-  return conv;
-};
 
 /* ---- the measured results (research/fugu/results.json) -------------------- */
 // sep-CMA-ES mean-policy reward per generation (seed 0); plateaus by ~gen 4.
@@ -168,18 +138,7 @@ const SectionLabel: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 interface Props { onHome: () => void }
 
 const Fugu: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => {
-    if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang);
-  }, [lang]);
-
-  const LANGS: { code: Lang; label: string }[] = [
-    { code: 'en', label: 'EN' },
-    { code: 'zh', label: '简' },
-    { code: 'zhHant', label: '繁' },
-  ];
+  const { lang, setLang, t } = useI18n();
 
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
@@ -189,7 +148,7 @@ const Fugu: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Research</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button
                   key={l.code}
                   onClick={() => setLang(l.code)}
@@ -1,5 +1,6 @@
-import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { BLOCKS, SCENARIOS, FOUR_STEPS, PART_META, CLOSING, type T, type Scenario } from './data';
+import { useI18n, type Lang } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /hpworkshop — live presenter panel for the 2026-07-28 full-day AI workshop.
@@ -12,28 +13,6 @@ import { BLOCKS, SCENARIOS, FOUR_STEPS, PART_META, CLOSING, type T, type Scenari
  * Fully offline — nothing is fetched at runtime.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-const STORAGE_KEY = 'dalei-lang-v2';
-/** This panel is presented to a Chinese-speaking room, and every prompt,
- *  data sample and test in it is Chinese — so it opens in 简体 unless the
- *  visitor has explicitly chosen English site-wide. */
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'zh';
-  const s = window.localStorage.getItem(STORAGE_KEY);
-  return s === 'en' ? 'en' : s === 'zhHant' ? 'zhHant' : 'zh';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 type TabKey = 'prompt' | 'data' | 'tests' | 'notes';
 const TABS: { k: TabKey; label: T; icon: string }[] = [
   { k: 'prompt', label: { en: 'Prompt', zh: '提示词' }, icon: '📋' },
@@ -50,10 +29,10 @@ const fmt = (s: number) => {
 interface Props { onHome: () => void }
 
 const HPWorkshop: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = useCallback((x: T) => (lang === 'en' ? x.en : lang === 'zhHant' ? (s2t ? s2t(x.zh) : x.zh) : x.zh), [lang, s2t]);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  // This panel is presented to a Chinese-speaking room, and every prompt, data
+  // sample and test in it is Chinese — so it opens in 简体 unless the visitor
+  // has explicitly chosen English site-wide.
+  const { lang, setLang, t } = useI18n('zh');
 
   /** view: an agenda block (overview) or one of the nine scenarios */
   const [view, setView] = useState<{ kind: 'block'; id: string } | { kind: 'scenario'; no: number }>({ kind: 'block', id: 'open' });
@@ -128,7 +107,7 @@ const HPWorkshop: React.FC<Props> = ({ onHome }) => {
     return () => window.removeEventListener('keydown', onKey);
   });
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }, { code: 'en', label: 'EN' }];
+  const LANGS: { code: Lang; label: string }[] = [{ code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }, { code: 'en', label: 'EN' }, { code: 'ja', label: '日' }, { code: 'ko', label: '한' }];
   const accent = view.kind === 'scenario' ? PART_META[scenario!.part].color : isClosing ? '#2fa8ff' : block.part ? PART_META[block.part].color : '#2fa8ff';
   const timerActive = timerFor === (view.kind === 'scenario' ? `s${scenario!.no}` : block.id);
   const timeColor = left < 0 ? '#ff5a5a' : left < 300 ? '#ff8a3c' : '#2fa8ff';
@@ -0,0 +1,95 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Lang, LANG_STORAGE_KEY, LocalizedText, isLang, localeOf, readStoredLang, storeLang } from './lang';
+import { useS2T } from './s2t';
+import { MessageValues, missingByPage, PluralText, translate, translatePlural } from './translate';
+
+interface I18nState {
+  /** The visitor's explicit choice; null until they pick one. */
+  choice: Lang | null;
+  setLang: (lang: Lang) => void;
+}
+
+const I18nContext = createContext<I18nState | null>(null);
+
+declare global {
+  interface Window {
+    /** Dev aid: run `__i18nMissing()` in the console to list untranslated strings per page. */
+    __i18nMissing?: () => void;
+  }
+}
+
+/**
+ * Holds the site-wide language choice. It persists to localStorage and follows
+ * changes made in other tabs, so switching language anywhere switches it
+ * everywhere.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [choice, setChoice] = useState<Lang | null>(readStoredLang);
+
+  const setLang = useCallback((lang: Lang) => {
+    setChoice(lang);
+    storeLang(lang);
+  }, []);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === LANG_STORAGE_KEY && isLang(e.newValue)) setChoice(e.newValue);
+    };
+    window.addEventListener('storage', onStorage);
+    window.__i18nMissing = () => {
+      for (const [path, rows] of Object.entries(missingByPage())) {
+        console.groupCollapsed(`${path} — ${rows.length} untranslated`);
+        console.table(rows.map(({ lang, fallback }) => ({ lang, fallback })));
+        console.groupEnd();
+      }
+    };
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      delete window.__i18nMissing;
+    };
+  }, []);
+
+  const value = useMemo(() => ({ choice, setLang }), [choice, setLang]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export interface I18n {
+  lang: Lang;
+  setLang: (lang: Lang) => void;
+  t: (txt: LocalizedText, values?: MessageValues) => string;
+  /** Count-dependent text; `{count}` is filled in. */
+  tp: (txt: PluralText, count: number, values?: MessageValues) => string;
+  /** Chinese-only text (prompt bodies, samples): converted for 繁體, unchanged otherwise. */
+  zh: (text: string) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: Date | number | string, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+/**
+ * Language, translation and formatting for a page. `fallback` is the language
+ * shown before the visitor has chosen one — English site-wide, but a page made
+ * for a Chinese-speaking room can open in 简体.
+ */
+export const useI18n = (fallback: Lang = 'en'): I18n => {
+  const state = useContext(I18nContext);
+  if (!state) throw new Error('useI18n must be used inside <I18nProvider>');
+  const lang = state.choice ?? fallback;
+  const s2t = useS2T(lang === 'zhHant');
+
+  useEffect(() => {
+    document.documentElement.lang = localeOf(lang);
+  }, [lang]);
+
+  return useMemo(() => {
+    const locale = localeOf(lang);
+    return {
+      lang,
+      setLang: state.setLang,
+      t: (txt, values) => translate(txt, lang, s2t, values),
+      tp: (txt, count, values) => translatePlural(txt, count, lang, s2t, values),
+      zh: (text) => (lang === 'zhHant' && s2t ? s2t(text) : text),
+      formatNumber: (value, options) => value.toLocaleString(locale, options),
+      formatDate: (value, options) => new Date(value).toLocaleDateString(locale, options),
+    };
+  }, [lang, s2t, state.setLang]);
+};
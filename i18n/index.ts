@@ -0,0 +1,26 @@
+export { I18nProvider, useI18n, type I18n } from './I18nProvider';
+export {
+  FALLBACKS,
+  isChinese,
+  isLang,
+  LANG_STORAGE_KEY,
+  LANGUAGES,
+  localeOf,
+  readStoredLang,
+  type Lang,
+  type LocalizedText,
+  type TextField,
+} from './lang';
+export { useS2T } from './s2t';
+export {
+  defineMessages,
+  interpolate,
+  missingByPage,
+  missingTranslations,
+  translate,
+  translatePlural,
+  type MessageValues,
+  type MissingTranslation,
+  type PluralForms,
+  type PluralText,
+} from './translate';
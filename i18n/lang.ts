@@ -0,0 +1,66 @@
+// 'zhHant' (繁體) is derived at runtime from the 'zh' (简体) strings via OpenCC,
+// so LocalizedText only stores en + zh. Japanese and Korean are optional and
+// filled in page by page; anything without them follows FALLBACKS.
+export type Lang = 'en' | 'zh' | 'zhHant' | 'ja' | 'ko';
+
+export interface LocalizedText {
+  en: string;
+  zh: string;
+  ja?: string;
+  ko?: string;
+}
+
+/** A field of LocalizedText — every Lang except the derived 'zhHant'. */
+export type TextField = keyof LocalizedText;
+
+/**
+ * Where each language looks for text, in order. Japanese and Korean readers
+ * get English before Chinese when a string has no translation yet.
+ */
+export const FALLBACKS: Record<Lang, readonly TextField[]> = {
+  en: ['en', 'zh'],
+  zh: ['zh', 'en'],
+  zhHant: ['zh', 'en'],
+  ja: ['ja', 'en', 'zh'],
+  ko: ['ko', 'en', 'zh'],
+};
+
+/** Switcher order and labels shared by every page header. */
+export const LANGUAGES: { code: Lang; label: string }[] = [
+  { code: 'en', label: 'EN' },
+  { code: 'zh', label: '简' },
+  { code: 'zhHant', label: '繁' },
+  { code: 'ja', label: '日' },
+  { code: 'ko', label: '한' },
+];
+
+// v2 key: ignores any auto-detected 'zh' stored by the earlier version so the
+// site always defaults to English unless the visitor explicitly picks 中文.
+export const LANG_STORAGE_KEY = 'dalei-lang-v2';
+
+export const isLang = (value: unknown): value is Lang => LANGUAGES.some((l) => l.code === value);
+
+/** 简体 or 繁體 — for content that only exists in English and Chinese. */
+export const isChinese = (lang: Lang): boolean => lang === 'zh' || lang === 'zhHant';
+
+/** The visitor's explicit choice, or null if they never picked one. */
+export const readStoredLang = (): Lang | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = window.localStorage.getItem(LANG_STORAGE_KEY);
+    return isLang(saved) ? saved : null;
+  } catch {
+    return null; // private mode
+  }
+};
+
+export const storeLang = (lang: Lang) => {
+  try {
+    window.localStorage.setItem(LANG_STORAGE_KEY, lang);
+  } catch {
+    /* private mode */
+  }
+};
+
+/** BCP 47 tag for Intl formatting and <html lang>. */
+export const localeOf = (lang: Lang): string => (lang === 'zh' ? 'zh-CN' : lang === 'zhHant' ? 'zh-Hant' : lang);
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+type Converter = (s: string) => string;
+
+// One converter for the whole app, shared by every component that asks for it
+let _s2t: Converter | null = null;
+
+/**
+ * Simplified → Traditional via OpenCC, lazy-loaded only when 繁體 is chosen
+ * (keeps it out of the default bundle). Returns the converter once ready.
+ */
+export const useS2T = (active: boolean): Converter | null => {
+  const [conv, setConv] = useState<Converter | null>(() => _s2t);
+  useEffect(() => {
+    if (!active || _s2t) {
+      if (_s2t && !conv) setConv(() => _s2t);
+      return;
+    }
+    let alive = true;
+    import('opencc-js')
+      .then((m) => {
+        _s2t = m.Converter({ from: 'cn', to: 'tw' });
+        if (alive) setConv(() => _s2t);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [active, conv]);
+  return conv;
+};
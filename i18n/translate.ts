@@ -0,0 +1,99 @@
+import { FALLBACKS, Lang, LocalizedText, localeOf, TextField } from './lang';
+
+/** Values for `{name}` placeholders. */
+export type MessageValues = Record<string, string | number>;
+
+/**
+ * Count-dependent text. English picks an Intl plural category (`one`, `other`…);
+ * Chinese, Japanese and Korean have no plural forms, so a single string usually
+ * does. `{count}` is replaced with the locale-formatted number.
+ */
+export interface PluralText {
+  en: PluralForms;
+  zh: string | PluralForms;
+  ja?: string | PluralForms;
+  ko?: string | PluralForms;
+}
+
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+/**
+ * Group a page's strings in one typed object so call sites read `t(msg.title)`
+ * and a missing key is a type error rather than an empty label.
+ */
+export const defineMessages = <const M extends Record<string, LocalizedText | PluralText>>(messages: M): M => messages;
+
+export const interpolate = (text: string, values?: MessageValues): string =>
+  values ? text.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match)) : text;
+
+/* ---------- missing-translation report ---------- */
+
+export interface MissingTranslation {
+  lang: TextField;
+  /** The text that was shown instead (the next language in the fallback chain). */
+  fallback: string;
+  /** Page path it was rendered on. */
+  path: string;
+}
+
+const missing = new Map<string, MissingTranslation>();
+
+const recordMissing = (lang: TextField, fallback: string) => {
+  const path = typeof window === 'undefined' ? '' : window.location.pathname;
+  const key = `${path}\n${lang}\n${fallback}`;
+  if (!missing.has(key)) missing.set(key, { lang, fallback, path });
+};
+
+/** Every string rendered so far that had no text in the requested language. */
+export const missingTranslations = (): MissingTranslation[] => [...missing.values()];
+
+/** The same report grouped by page path, for a per-page completeness view. */
+export const missingByPage = (): Record<string, MissingTranslation[]> => {
+  const pages: Record<string, MissingTranslation[]> = {};
+  for (const entry of missing.values()) (pages[entry.path] ??= []).push(entry);
+  return pages;
+};
+
+/* ---------- lookup ---------- */
+
+/**
+ * Pick the text for a language. 繁體 converts the 简体 text once OpenCC has
+ * loaded (s2t), showing 简体 until then. An empty field walks the language's
+ * FALLBACKS chain and lands in the missing-translation report.
+ */
+export const translate = (
+  txt: LocalizedText,
+  lang: Lang,
+  s2t: ((s: string) => string) | null,
+  values?: MessageValues
+): string => {
+  const [own, ...rest] = FALLBACKS[lang];
+  let text = txt[own];
+  if (!text) {
+    const field = rest.find((f) => txt[f]);
+    text = field ? txt[field]! : '';
+    if (text) recordMissing(own, text);
+  } else if (lang === 'zhHant' && s2t) {
+    text = s2t(text);
+  }
+  return interpolate(text, values);
+};
+
+export const translatePlural = (
+  txt: PluralText,
+  count: number,
+  lang: Lang,
+  s2t: ((s: string) => string) | null,
+  values?: MessageValues
+): string => {
+  const locale = localeOf(lang);
+  const pick = (forms: string | PluralForms) =>
+    typeof forms === 'string' ? forms : forms[new Intl.PluralRules(locale).select(count)] ?? forms.other;
+  const text: LocalizedText = {
+    en: pick(txt.en),
+    zh: pick(txt.zh),
+    ja: txt.ja && pick(txt.ja),
+    ko: txt.ko && pick(txt.ko),
+  };
+  return translate(text, lang, s2t, { count: count.toLocaleString(locale), ...values });
+};
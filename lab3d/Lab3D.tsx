@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { LAB_PROMPTS, SECTIONS, EXECUTED_COUNT, SOURCE_REPO, LocalizedText } from './data';
+import { LANGUAGES, useI18n } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /lab3d — the 3D prompt workbench. 63 Three.js scene prompts vendored from
@@ -10,38 +11,21 @@ import { LAB_PROMPTS, SECTIONS, EXECUTED_COUNT, SOURCE_REPO, LocalizedText } fro
  * prompts stay in their original English.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
+interface Props { onHome: () => void; onNavigate: (path: string) => void; params?: { sceneId?: string } }
 
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
-interface Props { onHome: () => void; onNavigate: (path: string) => void }
-
-const Lab3D: React.FC<Props> = ({ onHome, onNavigate }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+const Lab3D: React.FC<Props> = ({ onHome, onNavigate, params }) => {
+  const { lang, setLang, t } = useI18n();
 
   const [q, setQ] = useState('');
   const [sec, setSec] = useState('all');
   const [copied, setCopied] = useState<number | null>(null);
 
+  // /lab3d/26 deep-links to prompt #26: scroll to it with the prompt text open
+  const focus = Number(params?.sceneId) || null;
+  useEffect(() => {
+    if (focus) document.getElementById(`prompt-${focus}`)?.scrollIntoView({ block: 'center' });
+  }, [focus]);
+
   const list = useMemo(() => {
     const needle = q.trim().toLowerCase();
     return LAB_PROMPTS.filter((p) => {
@@ -58,8 +42,6 @@ const Lab3D: React.FC<Props> = ({ onHome, onNavigate }) => {
     }).catch(() => {});
   };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -68,7 +50,7 @@ const Lab3D: React.FC<Props> = ({ onHome, onNavigate }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">3D Prompt Lab</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
@@ -129,7 +111,7 @@ const Lab3D: React.FC<Props> = ({ onHome, onNavigate }) => {
         {/* prompt cards */}
         <div className="mt-6 grid gap-4 sm:grid-cols-2">
           {list.map((p) => (
-            <article key={p.n} className={`flex flex-col rounded-2xl border p-5 transition-colors ${p.route ? 'border-gold/40 bg-gold/[0.05]' : 'border-ink/10 bg-surface/50 hover:border-ink/25'}`}>
+            <article key={p.n} id={`prompt-${p.n}`} className={`flex flex-col rounded-2xl border p-5 transition-colors ${p.route ? 'border-gold/40 bg-gold/[0.05]' : 'border-ink/10 bg-surface/50 hover:border-ink/25'} ${p.n === focus ? 'ring-2 ring-gold/50' : ''}`}>
               <div className="flex items-start justify-between gap-3">
                 <div className="min-w-0">
                   <p className="font-mono text-[11px] tabular-nums text-ink/40">#{String(p.n).padStart(2, '0')} · {t(p.section.label)} · {(p.text.length / 1000).toFixed(1)}k</p>
@@ -140,7 +122,7 @@ const Lab3D: React.FC<Props> = ({ onHome, onNavigate }) => {
                 )}
               </div>
 
-              <details className="group/p mt-3 flex-1 rounded-xl border border-ink/10 bg-ink/[0.03] px-3.5 py-2.5">
+              <details open={p.n === focus} className="group/p mt-3 flex-1 rounded-xl border border-ink/10 bg-ink/[0.03] px-3.5 py-2.5">
                 <summary className="flex cursor-pointer list-none items-center justify-between font-mono text-[11px] uppercase tracking-wider text-ink/55 [&::-webkit-details-marker]:hidden">
                   <span>{t({ en: 'Prompt', zh: '提示词原文' })}</span>
                   <span className="transition-transform group-open/p:rotate-180">▾</span>
@@ -1,4 +1,5 @@
 import raw from './prompts.json';
+import type { LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * The 3D prompt workbench data layer. Prompts are vendored verbatim from
@@ -8,7 +9,7 @@ import raw from './prompts.json';
  * live pages on this site, so the workbench doubles as a results index.
  * ------------------------------------------------------------------------- */
 
-export interface LocalizedText { en: string; zh: string }
+export type { LocalizedText };
 
 interface RawPrompt { title: string; prompt: string }
 const prompts = (raw as { title: string; prompts: RawPrompt[] }).prompts;
@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /notebooklm — a bilingual showcase for the "YAML style-spec → hand-drawn
@@ -10,44 +11,14 @@ import React, { useEffect, useMemo, useState } from 'react';
  * page (not a copy of anyone's prompt) — swap in your own spec freely.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
 const SOURCE_URL = 'https://x.com/kumiko_shiraki/status/2076230080750137560';
 
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ============================ style presets ============================== */
 
 interface Preset {
   id: string;
-  name: T;
-  vibe: T;
+  name: LocalizedText;
+  vibe: LocalizedText;
   ink: string;
   accent: string;
   paper: string;
@@ -180,13 +151,13 @@ const Mock: React.FC<{ p: Preset; active: boolean }> = ({ p, active }) => (
 
 /* ============================ page ====================================== */
 
-const STEPS: { t: T; d: T }[] = [
+const STEPS: { t: LocalizedText; d: LocalizedText }[] = [
   { t: { en: 'Open NotebookLM', zh: '打开 NotebookLM' }, d: { en: 'Add your sources (docs, PDFs, notes) or just a topic. Go to the visual / slide generation.', zh: '导入你的资料（文档、PDF、笔记）或直接给一个主题，进入幻灯片/可视化生成。' } },
   { t: { en: 'Paste the YAML first', zh: '先贴 YAML' }, d: { en: 'Put the style spec at the top of your prompt, then describe the deck you want below it.', zh: '把风格规格放在提示词最上面，下面再写你想要的这套幻灯片内容。' } },
   { t: { en: 'Generate & nudge', zh: '生成并微调' }, d: { en: 'Generate, then tweak one field at a time — accent color, slide count, aesthetic — and regenerate.', zh: '生成后每次只改一个字段（点缀色、页数、风格），再重新生成。' } },
 ];
 
-const RULES: T[] = [
+const RULES: LocalizedText[] = [
   { en: 'One message per slide — resist cramming.', zh: '每页只讲一件事 —— 别硬塞。' },
   { en: 'Exactly one accent color across the whole deck.', zh: '整套只用一个点缀色。' },
   { en: 'Keep every icon at the same line weight.', zh: '所有图标保持同一线条粗细。' },
@@ -198,10 +169,7 @@ const RULES: T[] = [
 interface Props { onHome: () => void }
 
 const NotebookLM: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   const [presetId, setPresetId] = useState('line');
   const [deckLang, setDeckLang] = useState<'ja' | 'en' | 'zh'>('ja');
@@ -218,8 +186,6 @@ const NotebookLM: React.FC<Props> = ({ onHome }) => {
     }).catch(() => {});
   };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -228,7 +194,7 @@ const NotebookLM: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">NotebookLM · slide YAML</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>
                   {l.label}
@@ -0,0 +1,96 @@
+import type { LocalizedText } from '../i18n';
+
+// The /patterns map: seven layers of the agent loop plus Composition.
+
+export interface Pattern { name: LocalizedText; desc: LocalizedText }
+export interface Layer { n: string; icon: string; accent: string; name: LocalizedText; role: LocalizedText; patterns: Pattern[] }
+
+export const LAYERS: Layer[] = [
+  {
+    n: '01', icon: '👁️', accent: '#3a7a7a',
+    name: { en: 'Perception', zh: '感知' },
+    role: { en: 'Turn raw input into exactly what the model needs', zh: '把原始输入,变成模型真正需要的东西' },
+    patterns: [
+      { name: { en: 'Context Triage', zh: '上下文分诊' }, desc: { en: 'Budget attention — decide what enters the context window and what gets dropped.', zh: '给注意力做预算 —— 决定什么进上下文窗口、什么被丢掉。' } },
+      { name: { en: 'Semantic Compaction', zh: '语义压缩' }, desc: { en: 'Compress long context down to its meaning, not just its tokens.', zh: '把长上下文压成「含义」,而不是单纯砍 token。' } },
+      { name: { en: 'Progressive Discovery', zh: '渐进发现' }, desc: { en: 'Reveal information just-in-time instead of front-loading everything.', zh: '信息按需揭示,而不是一开始全塞进去。' } },
+      { name: { en: 'Multimodal Fusion', zh: '多模态融合' }, desc: { en: 'Combine text, image and audio into one coherent signal.', zh: '把文本、图像、音频融成一个连贯的信号。' } },
+    ],
+  },
+  {
+    n: '02', icon: '🧠', accent: '#7a5cab',
+    name: { en: 'Memory', zh: '记忆' },
+    role: { en: 'What persists across turns and runs', zh: '在多轮、多次运行之间留存下来的东西' },
+    patterns: [
+      { name: { en: 'Hierarchical Retention', zh: '分层保留' }, desc: { en: 'Tiered memory — working / session / long-term (à la MemGPT, Claude Code’s layers).', zh: '分层记忆 —— 工作区 / 会话 / 长期(参考 MemGPT、Claude Code 四层记忆)。' } },
+      { name: { en: 'RAG', zh: 'RAG 检索增强' }, desc: { en: 'Retrieve relevant chunks from a store to ground the answer.', zh: '从知识库检索相关片段,给答案提供依据。' } },
+      { name: { en: 'Progress Tracking', zh: '进度追踪' }, desc: { en: 'Keep an explicit task/todo state across a long run.', zh: '在长任务里维护一份明确的任务 / todo 状态。' } },
+      { name: { en: 'Failure Journals', zh: '失败日记' }, desc: { en: 'Log what went wrong so the agent doesn’t repeat it.', zh: '把踩过的坑记下来,别再犯第二遍。' } },
+    ],
+  },
+  {
+    n: '03', icon: '💭', accent: '#4285f4',
+    name: { en: 'Reasoning', zh: '推理' },
+    role: { en: 'How it thinks before it acts', zh: '行动之前,它怎么思考' },
+    patterns: [
+      { name: { en: 'Chain of Thought', zh: '思维链' }, desc: { en: 'Think step-by-step before answering.', zh: '先一步步想清楚,再回答。' } },
+      { name: { en: 'Complexity Routing', zh: '复杂度路由' }, desc: { en: 'Send easy tasks to a cheap path, hard ones to a deep path.', zh: '简单任务走便宜的路,难任务走深思的路。' } },
+      { name: { en: 'Parallel Exploration', zh: '并行探索' }, desc: { en: 'Explore several approaches at once, then pick the best.', zh: '同时探索几条路,再挑最好的。' } },
+      { name: { en: 'Iterative Hypothesis', zh: '迭代假设' }, desc: { en: 'Form a hypothesis, test it, revise — like a scientist.', zh: '提出假设、验证、修正 —— 像科学家一样。' } },
+    ],
+  },
+  {
+    n: '04', icon: '⚡', accent: '#c2703c',
+    name: { en: 'Action', zh: '行动' },
+    role: { en: 'How it does things in the world', zh: '它怎么在真实世界里做事' },
+    patterns: [
+      { name: { en: 'Prompt Chaining', zh: '提示链' }, desc: { en: 'Chain small, reliable prompts into a workflow.', zh: '把一串小而可靠的提示词,串成一条工作流。' } },
+      { name: { en: 'Tool Dispatch', zh: '工具调度' }, desc: { en: 'Route a request to the right tool and call it.', zh: '把请求路由到对的工具并调用。' } },
+      { name: { en: 'Plan-and-Execute', zh: '规划执行' }, desc: { en: 'Make a plan first, then execute the steps.', zh: '先做计划,再逐步执行。' } },
+      { name: { en: 'Guardrail Sandwich', zh: '护栏三明治' }, desc: { en: 'Validate input → act → validate output.', zh: '校验输入 → 执行 → 校验输出,两头夹住。' } },
+    ],
+  },
+  {
+    n: '05', icon: '🔁', accent: '#5c8a3a',
+    name: { en: 'Reflection', zh: '反思' },
+    role: { en: 'How it improves itself', zh: '它怎么自我改进' },
+    patterns: [
+      { name: { en: 'Generator–Critic', zh: '生成-批评' }, desc: { en: 'One role drafts, another critiques — loop until it’s good.', zh: '一个角色起草、另一个挑刺,循环到满意为止。' } },
+      { name: { en: 'Self-Heal Loop', zh: '自愈循环' }, desc: { en: 'Detect a failure and retry with a fix automatically.', zh: '发现出错,自动带着修复重试。' } },
+      { name: { en: 'Skill Package', zh: '技能包' }, desc: { en: 'Distill a repeated solution into a reusable skill.', zh: '把反复用到的解法,沉淀成可复用的技能。' } },
+      { name: { en: 'Experience Replay', zh: '经验回放' }, desc: { en: 'Learn from past runs by replaying them.', zh: '回放过去的运行记录,从中学习。' } },
+    ],
+  },
+  {
+    n: '06', icon: '🤝', accent: '#8a682c',
+    name: { en: 'Collaboration', zh: '协作' },
+    role: { en: 'How multiple agents work together', zh: '多个 agent 怎么协同' },
+    patterns: [
+      { name: { en: 'Handoff Chain', zh: '交接链' }, desc: { en: 'Pass the task down a chain of specialists.', zh: '把任务沿着一条专家链往下交接。' } },
+      { name: { en: 'Fan-out / Gather', zh: '扇出聚合' }, desc: { en: 'Split work across agents in parallel, then merge.', zh: '把活并行扇给多个 agent,再聚合结果。' } },
+      { name: { en: 'Adversarial Review', zh: '对抗评审' }, desc: { en: 'An independent agent tries to refute the result.', zh: '一个独立 agent 专门来反驳、挑错。' } },
+      { name: { en: 'Hierarchical Delegation', zh: '层级委派' }, desc: { en: 'A lead agent delegates to sub-agents.', zh: '一个主管 agent 把任务委派给子 agent。' } },
+    ],
+  },
+  {
+    n: '07', icon: '🛡️', accent: '#c0413a',
+    name: { en: 'Governance', zh: '治理' },
+    role: { en: 'How to keep it safe and accountable', zh: '怎么让它安全、可问责' },
+    patterns: [
+      { name: { en: 'Approval Gate', zh: '审批门' }, desc: { en: 'Pause for human approval before risky actions.', zh: '高风险动作前,停下来等人工批准。' } },
+      { name: { en: 'Blast Radius', zh: '爆炸半径' }, desc: { en: 'Bound how much damage a single mistake can do.', zh: '限制一次失误最多能造成多大破坏。' } },
+      { name: { en: 'Progressive Commitment', zh: '渐进承诺' }, desc: { en: 'Commit in small, reversible steps — not all at once.', zh: '小步、可回滚地提交,而不是一把梭。' } },
+      { name: { en: 'Observability Harness', zh: '可观测性' }, desc: { en: 'Trace, log and monitor every decision.', zh: '把每一步决策都追踪、记录、监控起来。' } },
+    ],
+  },
+];
+
+export const COMPOSITION: Pattern[] = [
+  { name: { en: 'Pattern Selection Card', zh: '模式选择卡' }, desc: { en: 'Pick the pattern by where your problem sits in the design space.', zh: '按你的问题落在设计空间的哪个坐标,选出该用的模式。' } },
+  { name: { en: 'Six-Step Methodology', zh: '六步方法论' }, desc: { en: 'A process to assemble patterns into a real architecture.', zh: '一套把模式组装成真实架构的流程。' } },
+  { name: { en: 'Full Worked Case', zh: '完整案例' }, desc: { en: 'An end-to-end example wiring many patterns together.', zh: '一个端到端、把多种模式接到一起的完整案例。' } },
+  { name: { en: 'Checklist Benchmark', zh: '清单基准' }, desc: { en: 'A checklist to audit an agent design before you ship.', zh: '上线前,用来体检一个 agent 设计的清单。' } },
+];
+
+/** URL id of a pattern: /patterns/context-triage. */
+export const patternId = (p: Pattern) => p.name.en.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
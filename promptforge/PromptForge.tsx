@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { isChinese, LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /promptforge — 提示词锻造台 PromptForge
@@ -18,36 +19,6 @@ import React, { useEffect, useMemo, useState } from 'react';
  * high-signal (context engineering).
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) {
-      if (_s2t && !conv) setConv(() => _s2t);
-      return;
-    }
-    let alive = true;
-    import('opencc-js')
-      .then((m) => {
-        _s2t = (m as any).Converter({ from: 'cn', to: 'tw' });
-        if (alive) setConv(() => _s2t);
-      })
-      .catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ============================= slot model ================================= */
 
 type SlotKey =
@@ -61,7 +32,7 @@ const EMPTY_SLOTS: Slots = {
   tone: '', constraints: '', examples: '', success: '', variants: '',
 };
 
-const SLOT_META: Record<SlotKey, { label: T; hint: T }> = {
+const SLOT_META: Record<SlotKey, { label: LocalizedText; hint: LocalizedText }> = {
   role: {
     label: { en: 'Role / Persona', zh: '角色' },
     hint: { en: 'Who should the AI be? A specific persona lifts quality.', zh: 'AI 应该是谁？具体的角色设定能显著提升质量。' },
@@ -200,12 +171,12 @@ export function analyze(raw: string): { slots: Slots; detected: Set<SlotKey> } {
 
 /* ============================ frameworks ================================== */
 
-interface FrameworkSection { letter: string; name: T; slot: SlotKey; tag: string }
+interface FrameworkSection { letter: string; name: LocalizedText; slot: SlotKey; tag: string }
 interface Framework {
   id: string;
   name: string;
-  full: T;
-  when: T;
+  full: LocalizedText;
+  when: LocalizedText;
   sections: FrameworkSection[];
 }
 
@@ -291,7 +262,7 @@ const FRAMEWORKS: Framework[] = [
 
 /* ====================== verification loop add-ons ======================== */
 
-interface AddOn { id: string; label: T; clause: T }
+interface AddOn { id: string; label: LocalizedText; clause: LocalizedText }
 
 const ADDONS: AddOn[] = [
   {
@@ -358,9 +329,9 @@ const assemble = (
  * paste of any paid prompt library (that would republish licensed content and,
  * being finished prompts, wouldn't demo the *decomposition* step anyway). */
 
-interface Example { id: string; group: string; title: T; text: T }
+interface Example { id: string; group: string; title: LocalizedText; text: LocalizedText }
 
-const EX_GROUPS: { key: string; label: T }[] = [
+const EX_GROUPS: { key: string; label: LocalizedText }[] = [
   { key: 'office', label: { en: 'Office & comms', zh: '办公沟通' } },
   { key: 'marketing', label: { en: 'Marketing', zh: '营销内容' } },
   { key: 'hr', label: { en: 'Hiring', zh: '招聘人事' } },
@@ -452,7 +423,7 @@ const EXAMPLES: Example[] = [
 
 /* ============================ page ======================================== */
 
-const BEST_PRACTICES: { title: T; body: T }[] = [
+const BEST_PRACTICES: { title: LocalizedText; body: LocalizedText }[] = [
   { title: { en: 'Structure with delimiters', zh: '用分隔符结构化' }, body: { en: 'XML tags or ### headers keep instructions, context and data unambiguous — the single highest-leverage habit.', zh: 'XML 标签或 ### 标题把指令、背景、数据清晰隔开 —— 性价比最高的一个习惯。' } },
   { title: { en: 'Assign a specific role', zh: '指定具体角色' }, body: { en: '"You are a senior tax lawyer" beats "you are helpful". Persona shapes vocabulary, depth and judgment.', zh: '「你是资深税务律师」远胜「你是个有用的助手」。角色决定用词、深度与判断力。' } },
   { title: { en: 'Outcome, not steps', zh: '给结果，不给步骤' }, body: { en: 'State the outcome and success criteria; let the model plan. Over-specified steps cap its quality.', zh: '说清想要的结果与验收标准，让模型自己规划。步骤写得太死反而限制质量。' } },
@@ -464,12 +435,7 @@ const BEST_PRACTICES: { title: T; body: T }[] = [
 interface Props { onHome: () => void }
 
 const PromptForge: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => {
-    if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang);
-  }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   const [input, setInput] = useState('');
   const [slots, setSlots] = useState<Slots>({ ...EMPTY_SLOTS });
@@ -482,7 +448,7 @@ const PromptForge: React.FC<Props> = ({ onHome }) => {
   const [showExamples, setShowExamples] = useState(false);
 
   const fw = FRAMEWORKS.find((f) => f.id === fwId)!;
-  const isZh = lang !== 'en';
+  const isZh = isChinese(lang);
 
   const runAnalyze = () => {
     const r = analyze(input);
@@ -526,8 +492,6 @@ const PromptForge: React.FC<Props> = ({ onHome }) => {
   // Slots this framework actually uses (dedup CO-STAR's shared tone slot).
   const fwSlots = [...new Set(fw.sections.map((s) => s.slot))];
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -536,7 +500,7 @@ const PromptForge: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">PromptForge · no-LLM</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>
                   {l.label}
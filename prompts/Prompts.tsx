@@ -1,5 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { PROMPTS } from './data';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /prompts — 大雷's prompt arsenal. A searchable library of Chinese "act as …"
@@ -8,27 +9,6 @@ import { PROMPTS } from './data';
  * the prompts themselves stay Chinese (converted to 繁 when 繁體 is selected).
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface LocalizedText { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 const CATS: { key: string; label: LocalizedText; kw: string[] }[] = [
   { key: 'translate', label: { en: 'Language', zh: '翻译语言' }, kw: ['翻译', '英语', '语言', '词典', '发音', '英文', '母语', '同义'] },
   { key: 'writing', label: { en: 'Writing', zh: '写作文案' }, kw: ['写作', '文案', '标题', '润色', '小说', '诗', '作文', '简历', '故事', '编辑', '文章', '剧本'] },
@@ -39,19 +19,21 @@ const CATS: { key: string; label: LocalizedText; kw: string[] }[] = [
   { key: 'fun', label: { en: 'Creative', zh: '创意娱乐' }, kw: ['扮演', '游戏', '电影', '音乐', 'rapper', '说唱', '艺术', '梦', '占卜', '魔术', '相声', '脱口秀'] },
 ];
 
-interface Props { onHome: () => void }
+interface Props { onHome: () => void; params?: { promptId?: string } }
 
-const Prompts: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: LocalizedText) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  const zh = (s: string) => (lang === 'zhHant' && s2t ? s2t(s) : s); // prompt text stays Chinese
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+const Prompts: React.FC<Props> = ({ onHome, params }) => {
+  const { lang, setLang, t, tp, zh } = useI18n(); // zh(): prompt text stays Chinese
 
   const [q, setQ] = useState('');
   const [cat, setCat] = useState('all');
   const [copied, setCopied] = useState<number | null>(null);
 
+  // /prompts/12 deep-links to the 12th prompt: scroll to it with the text open
+  const focus = Number(params?.promptId) || null;
+  useEffect(() => {
+    if (focus) document.getElementById(`prompt-${focus}`)?.scrollIntoView({ block: 'center' });
+  }, [focus]);
+
   const list = useMemo(() => {
     const needle = q.trim().toLowerCase();
     const kws = cat === 'all' ? null : CATS.find((c) => c.key === cat)!.kw;
@@ -68,8 +50,6 @@ const Prompts: React.FC<Props> = ({ onHome }) => {
     }).catch(() => {});
   };
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   return (
     <div className="min-h-screen bg-paper font-sans text-ink">
       <header className="sticky top-0 z-40 border-b border-ink/10 bg-paper/85 backdrop-blur-xl">
@@ -78,7 +58,7 @@ const Prompts: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Prompt Library</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)}
                   className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
@@ -119,7 +99,7 @@ const Prompts: React.FC<Props> = ({ onHome }) => {
               </button>
             ))}
           </div>
-          <div className="font-mono text-[11px] text-ink/40">{list.length} {t({ en: 'prompts', zh: '条' })}</div>
+          <div className="font-mono text-[11px] text-ink/40">{tp({ en: { one: '{count} prompt', other: '{count} prompts' }, zh: '{count} 条' }, list.length)}</div>
         </div>
 
         {/* grid */}
@@ -128,9 +108,9 @@ const Prompts: React.FC<Props> = ({ onHome }) => {
             const idx = PROMPTS.indexOf(p);
             const promptText = zh(p.prompt);
             return (
-              <article key={idx} className="flex flex-col rounded-2xl border border-ink/10 bg-surface/50 p-5 transition-colors hover:border-gold/40">
+              <article key={idx} id={`prompt-${idx + 1}`} className={`flex flex-col rounded-2xl border border-ink/10 bg-surface/50 p-5 transition-colors hover:border-gold/40 ${idx + 1 === focus ? 'ring-2 ring-gold/50' : ''}`}>
                 <h3 className="font-display text-lg font-semibold leading-snug tracking-tight">{zh(p.act)}</h3>
-                <details className="group/p mt-3 flex-1 rounded-xl border border-ink/10 bg-ink/[0.03] px-3.5 py-2.5">
+                <details open={idx + 1 === focus} className="group/p mt-3 flex-1 rounded-xl border border-ink/10 bg-ink/[0.03] px-3.5 py-2.5">
                   <summary className="flex cursor-pointer list-none items-center justify-between font-mono text-[11px] uppercase tracking-wider text-ink/55 [&::-webkit-details-marker]:hidden">
                     <span>{t({ en: 'Prompt', zh: '提示词' })}</span>
                     <span className="transition-transform group-open/p:rotate-180">▾</span>
@@ -0,0 +1,71 @@
+// Offline cache for the particle page (registered by services/offlineCache.ts with
+// scope /particles, so no other page is ever controlled by it).
+// - MediaPipe assets: cache first, in a cache named after the @mediapipe/hands version
+//   that scripts/copy-mediapipe-assets.mjs wrote to /mediapipe/sw-version.js.
+// - Hashed build files: cache first, oldest dropped past MAX_ASSETS.
+// - The /particles page itself: network first, cached copy when offline.
+// Every other request goes straight to the network untouched.
+importScripts('/mediapipe/sw-version.js');
+
+const PREFIX = 'kinetic-offline-';
+const MEDIAPIPE_CACHE = `${PREFIX}mediapipe-${self.MEDIAPIPE_VERSION}`;
+const ASSET_CACHE = `${PREFIX}assets`;
+const PAGE_CACHE = `${PREFIX}page`;
+const CACHES = [MEDIAPIPE_CACHE, ASSET_CACHE, PAGE_CACHE];
+const MAX_ASSETS = 60; // A build's particle page chunks, with room for the previous deploy
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(PREFIX) && !CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache keys come back in insertion order, so the first ones are the oldest
+const trim = async (cache, max) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName, max) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    await cache.put(request, response.clone());
+    if (max) await trim(cache, max);
+  }
+  return response;
+};
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(PAGE_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/mediapipe/')) {
+    event.respondWith(cacheFirst(request, MEDIAPIPE_CACHE));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE, MAX_ASSETS));
+  } else if (request.mode === 'navigate' && /^\/particles\/?$/.test(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -1,6 +1,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { BusAudio } from './busAudio';
+import { LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /quyoubus — 趣游巴士 · AI 夜游.
@@ -14,30 +15,10 @@ import { BusAudio } from './busAudio';
  * All 3D, music, copy and question banks are original.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const s = window.localStorage.getItem(STORAGE_KEY);
-  return s === 'zh' || s === 'zhHant' ? s : 'en';
-};
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ============================ content ================================= */
 
 type Game = 'dialect' | 'song' | 'rhythm' | 'openmic';
-interface Station { name: T; icon: string; blurb: T; game: Game }
+interface Station { name: LocalizedText; icon: string; blurb: LocalizedText; game: Game }
 const STATIONS: Station[] = [
   { name: { en: 'Chunxi Road', zh: '春熙路' }, icon: '🛍️', game: 'dialect',
     blurb: { en: 'Chengdu’s century-old shopping heart — neon, crowds, street performers. Our party bus pulls out from here.', zh: '成都百年商业中心，霓虹、人潮、街头艺人。我们的派对巴士从这里出发。' } },
@@ -49,7 +30,7 @@ const STATIONS: Station[] = [
     blurb: { en: '339 metres over the Jinjiang — the tower’s light show is the finale of tonight’s ride.', zh: '锦江边 339 米高塔，塔身灯光秀是今晚这趟车的压轴。' } },
 ];
 
-interface QA { q: T; opts: T[]; ans: number }
+interface QA { q: LocalizedText; opts: LocalizedText[]; ans: number }
 const DIALECT: QA[] = [
   { q: { en: 'What does 「巴适」 mean?', zh: '「巴适」是什么意思？' }, opts: [{ en: 'comfy / great', zh: '舒服、安逸' }, { en: 'terrible', zh: '糟糕透了' }, { en: 'hurry up', zh: '快点走' }, { en: 'weird', zh: '奇奇怪怪' }], ans: 0 },
   { q: { en: 'What does 「摆龙门阵」 mean?', zh: '「摆龙门阵」是什么意思？' }, opts: [{ en: 'chit-chat', zh: '闲聊摆谈' }, { en: 'line up a battle', zh: '摆阵打仗' }, { en: 'set the table', zh: '摆桌子' }, { en: 'play mahjong', zh: '打麻将' }], ans: 0 },
@@ -67,34 +48,34 @@ const SONG: QA[] = [
 
 const HOST = {
   welcome: { en: 'Yo! I’m Green, your host tonight. Turn it up — the Quyou Bus is rolling out from Chunxi Road! 🎤', zh: '哟！我是今晚的主理人阿绿，音乐走起 —— 趣游巴士从春熙路发车咯！🎤' },
-  arrive: (s: T): T => ({ en: `Next stop: ${s.en}. Look out the window! 🌃`, zh: `下一站到咯：${s.zh}。往窗外看！🌃` }),
+  arrive: (s: LocalizedText): LocalizedText => ({ en: `Next stop: ${s.en}. Look out the window! 🌃`, zh: `下一站到咯：${s.zh}。往窗外看！🌃` }),
   toGame: {
     dialect: { en: 'Time for 「dialect guessing」— can you talk like a local? 🀄', zh: '来盘「方言猜猜猜」—— 看你巴不巴适！🀄' },
     song: { en: 'Old-song archaeology! Four choices, no peeking. 🎶', zh: '老歌考古四选一，不许偷看！🎶' },
     rhythm: { en: 'Clap on the beat with me — eight beats, don’t rush it! 👏', zh: '跟着节拍拍手 —— 八拍，别抢拍！👏' },
     openmic: { en: 'Open mic! The floor — and the tower lights — are yours. 🎙️', zh: '开放麦时间！这束光和塔灯都归你。🎙️' },
-  } as Record<Game, T>,
+  } as Record<Game, LocalizedText>,
   right: [{ en: 'Baaashi! Local through and through. 🔥', zh: '巴适得板！地道成都人。🔥' }, { en: 'Nailed it — the bus roars for you! 🎉', zh: '答对咯 —— 全车为你欢呼！🎉' }],
   wrong: [{ en: 'Aiya, close! The bus forgives you. 😆', zh: '哎呀差点点，全车原谅你。😆' }, { en: 'Not quite — but the vibe’s still bashi. 🫶', zh: '没对上，不过气氛还是巴适。🫶' }],
 };
-const OPENMIC_HYPE: T[] = [
+const OPENMIC_HYPE: LocalizedText[] = [
   { en: 'The whole bus is clapping — that was pure gold! 👏', zh: '全车都在拍手 —— 你这段太顶了！👏' },
   { en: 'Green tips his afro to you. Encore! 🎤', zh: '阿绿对你脱帽致敬，返场！🎤' },
   { en: 'Chengdu nights just got 10% more fun because of you. 🌟', zh: '就因为你，成都的夜又好玩了 10%。🌟' },
 ];
-const TITLES: { min: number; title: T }[] = [
+const TITLES: { min: number; title: LocalizedText }[] = [
   { min: 4, title: { en: 'Honorary Chengdu Local 🐼', zh: '荣誉成都土著 🐼' } },
   { min: 2, title: { en: 'Night-Bus Regular 🌃', zh: '夜巴常客 🌃' } },
   { min: 0, title: { en: 'First-time Rider 🎫', zh: '初次上车乘客 🎫' } },
 ];
-const BLESSINGS: T[] = [
+const BLESSINGS: LocalizedText[] = [
   { en: 'May every ride you take be this bashi. 🚌', zh: '愿你往后每一趟车，都这么巴适。🚌' },
   { en: 'Keep the party moving, wherever you go. ✨', zh: '把这份热闹，带去你要去的每个地方。✨' },
 ];
 
 const RHYTHM_TAPS = 8;
 type Judge = 'perfect' | 'good' | 'miss';
-const JUDGE_TEXT: Record<Judge, T> = {
+const JUDGE_TEXT: Record<Judge, LocalizedText> = {
   perfect: { en: 'PERFECT', zh: '完美' }, good: { en: 'GOOD', zh: '不错' }, miss: { en: 'OFF-BEAT', zh: '跑拍了' },
 };
 const JUDGE_COLOR: Record<Judge, string> = { perfect: '#39d353', good: '#ffcf33', miss: '#e83f9e' };
@@ -105,10 +86,7 @@ interface Props { onHome: () => void }
 type Phase = 'boarding' | 'riding' | 'narrate' | 'game' | 'result' | 'ended';
 
 const QuyouBus: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (x: T) => (lang === 'en' ? x.en : lang === 'zhHant' ? (s2t ? s2t(x.zh) : x.zh) : x.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t } = useI18n();
 
   const [phase, setPhase] = useState<Phase>('boarding');
   const [sIdx, setSIdx] = useState(0);
@@ -116,7 +94,7 @@ const QuyouBus: React.FC<Props> = ({ onHome }) => {
   const [q, setQ] = useState<QA | null>(null);
   const [picked, setPicked] = useState<number | null>(null);
   const [mic, setMic] = useState('');
-  const [micDone, setMicDone] = useState<T | null>(null);
+  const [micDone, setMicDone] = useState<LocalizedText | null>(null);
   const [muted, setMuted] = useState(false);
   const [beatTick, setBeatTick] = useState(0);
   const [taps, setTaps] = useState<Judge[]>([]);
@@ -437,9 +415,8 @@ const QuyouBus: React.FC<Props> = ({ onHome }) => {
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   /* ---------------- UI ---------------- */
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
   const title = TITLES.find((x) => score >= x.min)!.title;
-  const hostLine: T = phase === 'boarding' ? HOST.welcome
+  const hostLine: LocalizedText = phase === 'boarding' ? HOST.welcome
     : phase === 'narrate' ? station.blurb
     : phase === 'game' ? HOST.toGame[station.game]
     : phase === 'result' ? (station.game === 'openmic' ? (micDone || HOST.right[0])
@@ -465,7 +442,7 @@ const QuyouBus: React.FC<Props> = ({ onHome }) => {
         <div className="pointer-events-auto flex items-center gap-2">
           <button onClick={toggleMute} title={t({ en: 'music', zh: '音乐' })} className="rounded-full border border-white/20 bg-black/40 px-3 py-1.5 font-mono text-[13px] backdrop-blur-md transition-colors hover:text-white">{muted ? '🔇' : '🔊'}</button>
           <div className="flex overflow-hidden rounded-full border border-white/20 bg-black/40 backdrop-blur-md">
-            {LANGS.map((l) => (<button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-white text-[#0b0a1c]' : 'text-white/60'}`}>{l.label}</button>))}
+            {LANGUAGES.map((l) => (<button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-white text-[#0b0a1c]' : 'text-white/60'}`}>{l.label}</button>))}
           </div>
         </div>
       </header>
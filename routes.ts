@@ -0,0 +1,805 @@
+import type { ComponentType } from 'react';
+import type { LocalizedText } from './i18n';
+
+/* ---------------------------------------------------------------------------
+ * Route table — the single list of pages. Matching, code-splitting, the
+ * page metadata (title, description, share image — see seo.ts), the ⌘K
+ * palette and the prerendered build output all read it, so adding a page is
+ * one entry here. Kept free of JSX/React runtime so the build scripts can
+ * load it in Node.
+ * ------------------------------------------------------------------------- */
+
+/** Every page receives the same navigation props and picks what it needs. */
+export interface RouteProps {
+  onHome: () => void;
+  /** Back to the parent route (the homepage for top-level pages). */
+  onBack: () => void;
+  onNavigate: (path: string) => void;
+  /** Values of the `:name` segments in the route path. */
+  params: Record<string, string>;
+}
+
+export type RouteCategory = 'home' | 'ai' | 'creative' | 'tool' | 'workshop' | 'lab3d';
+
+export interface RouteDef {
+  id: string;
+  /** '/farmer', or with params: '/lab3d/:sceneId'. */
+  path: string;
+  /** Dynamic import of the page; omitted for the homepage, which ships in the main bundle. */
+  load?: () => Promise<{ default: ComponentType<RouteProps> }>;
+  title: string;
+  /** The zh text is what goes into <meta name="description"> and the share cards. */
+  description: LocalizedText;
+  /** Share-card image under public/; the site-wide og.png when omitted. */
+  image?: { src: string; width: number; height: number };
+  category: RouteCategory;
+  /** Short name for the palette and other navigation UI. */
+  label: LocalizedText;
+  /** Suspense fallback text while the chunk loads. */
+  loading?: string;
+  parent?: string;
+  /** Fixed full-screen canvas: the body must not scroll. */
+  fullScreen?: boolean;
+  /** The page has no header of its own, so the router overlays a way home. */
+  homeButton?: boolean;
+  /** Listed in sitemap.xml when set. */
+  sitemap?: { changefreq: 'weekly' | 'monthly'; priority: number };
+}
+
+export const SITE_URL = 'https://dailycosmos.net';
+
+// Shared by a list page and its deep-link route so both resolve to one chunk
+const loadLab3D = () => import('./lab3d/Lab3D');
+const loadAgents = () => import('./agents/Agents');
+const loadPatterns = () => import('./patterns/Patterns');
+const loadPrompts = () => import('./prompts/Prompts');
+
+export const ROUTES = [
+  {
+    id: 'home',
+    path: '/',
+    title: '大雷 Da Lei — AI 自动化 · 创意编程 · 开源工具',
+    description: {
+      en: 'Da Lei builds AI automation, creative coding experiments and open-source tools, with videos and workshops to learn them.',
+      zh: '大雷（Da Lei）个人主页 -- AI 自动化实践者 × 创意开发者。免费开源工具箱：Markdown 公众号排版、图片压缩、截图转代码、WebGL 流体，以及 AI Coding 装备库与互动作品。在 YouTube @dalei2025 分享 AI 自动化实战。',
+    },
+    category: 'home',
+    label: { en: 'Home', zh: '首页' },
+    sitemap: { changefreq: 'weekly', priority: 1.0 },
+  },
+  {
+    id: 'particles',
+    path: '/particles',
+    load: () => import('./App'),
+    title: 'Kinetic Particles · 大雷',
+    description: {
+      en: 'Shape 3D particle clouds with your hands in the browser: hand tracking, text, images and models as particles.',
+      zh: '在浏览器里用手势操控 3D 粒子：手部追踪、文字、图片和模型都能化成粒子。',
+    },
+    image: { src: '/kinetic-cover-1200.webp', width: 1200, height: 573 },
+    category: 'creative',
+    label: { en: 'Kinetic Particles', zh: '手势粒子' },
+    loading: 'LOADING PARTICLES…',
+    fullScreen: true,
+    homeButton: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'arsenal',
+    path: '/arsenal',
+    load: () => import('./arsenal/Arsenal'),
+    title: 'AI Coding Arsenal · 大雷 AI 编程装备库',
+    description: {
+      en: 'A curated, regularly updated kit of AI coding tools, models and workflows.',
+      zh: '持续更新的 AI 编程装备库：工具、模型和工作流精选。',
+    },
+    image: { src: '/arsenal-cover-1200.webp', width: 1200, height: 750 },
+    category: 'ai',
+    label: { en: 'AI Coding Arsenal', zh: 'AI 编程装备库' },
+    loading: 'LOADING ARSENAL…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'md',
+    path: '/md',
+    load: () => import('./tools/MarkdownStudio'),
+    title: 'Markdown 工具箱 · 大雷',
+    description: {
+      en: 'Write and preview Markdown, then export it for WeChat, docs or slides, all in the browser.',
+      zh: '在浏览器里编写和预览 Markdown，并导出到公众号、文档或幻灯片。',
+    },
+    category: 'tool',
+    label: { en: 'Markdown Studio', zh: 'Markdown 工具箱' },
+    loading: 'LOADING EDITOR…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'img',
+    path: '/img',
+    load: () => import('./tools/ImageStudio'),
+    title: '图片工具箱 · 大雷',
+    description: {
+      en: 'Resize, compress and convert images locally; nothing is uploaded.',
+      zh: '本地完成图片缩放、压缩和格式转换，不上传任何文件。',
+    },
+    category: 'tool',
+    label: { en: 'Image Studio', zh: '图片工具箱' },
+    loading: 'LOADING IMAGE STUDIO…',
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 's2c',
+    path: '/s2c',
+    load: () => import('./tools/ScreenshotToCode'),
+    title: '截图转代码 · 大雷',
+    description: {
+      en: 'Turn a UI screenshot into working HTML and Tailwind code with Gemini.',
+      zh: '用 Gemini 把界面截图变成可运行的 HTML 与 Tailwind 代码。',
+    },
+    category: 'tool',
+    label: { en: 'Screenshot to Code', zh: '截图转代码' },
+    loading: 'LOADING…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.6 },
+  },
+  {
+    id: 'fluid',
+    path: '/fluid',
+    load: () => import('./tools/FluidPlayground'),
+    title: 'Fluid 流体 · 大雷',
+    description: {
+      en: 'An interactive WebGL fluid simulation to play with.',
+      zh: '可以随手把玩的 WebGL 流体模拟。',
+    },
+    category: 'creative',
+    label: { en: 'Fluid Playground', zh: 'Fluid 流体' },
+    loading: 'LOADING FLUID…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.6 },
+  },
+  {
+    id: 'r3f',
+    path: '/r3f',
+    load: () => import('./tools/ThreeOrb'),
+    title: '3D 起手式 · 大雷',
+    description: {
+      en: 'A minimal React Three Fiber starter scene to begin 3D on the web.',
+      zh: '最小的 React Three Fiber 起手场景，网页 3D 从这里开始。',
+    },
+    category: 'creative',
+    label: { en: '3D Starter', zh: '3D 起手式' },
+    loading: 'LOADING 3D…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.6 },
+  },
+  {
+    id: 'ttt-hour-of-code',
+    path: '/ttt-hour-of-code',
+    load: () => import('./workshop/TTTHourOfCode'),
+    title: '从 TTT 到代码一小时 · 大雷 Workshop',
+    description: {
+      en: 'Workshop companion page: from train-the-trainer to a first hour of code.',
+      zh: '工作坊随课页：从 TTT 培训到第一小时写代码。',
+    },
+    category: 'workshop',
+    label: { en: 'TTT Hour of Code', zh: '从 TTT 到代码一小时' },
+    loading: 'LOADING WORKSHOP…',
+  },
+  {
+    id: 'hear-the-universe',
+    path: '/hear-the-universe',
+    load: () => import('./universe/HearTheUniverse'),
+    title: '听见宇宙 · 中文无障碍代码一小时 · 大雷',
+    description: {
+      en: 'An accessible, Chinese-language Hour of Code: listen to the universe through code.',
+      zh: '中文无障碍代码一小时：用代码听见宇宙。',
+    },
+    category: 'workshop',
+    label: { en: 'Hear the Universe', zh: '听见宇宙' },
+    loading: '正在连接宇宙通讯…',
+  },
+  {
+    id: 'bench',
+    path: '/bench',
+    load: () => import('./bench/Bench'),
+    title: '大雷 AI 评测台 · Da Lei AI Benchmark',
+    description: {
+      en: 'Hands-on benchmark of AI models on real tasks, with prompts, outputs and scores.',
+      zh: '用真实任务实测 AI 模型，公开提示词、输出和评分。',
+    },
+    image: { src: '/bench-cover-1200.webp', width: 1200, height: 750 },
+    category: 'ai',
+    label: { en: 'AI Benchmark', zh: 'AI 评测台' },
+    loading: 'LOADING BENCHMARK…',
+    sitemap: { changefreq: 'weekly', priority: 0.9 },
+  },
+  {
+    id: 'fugu',
+    path: '/fugu',
+    load: () => import('./fugu/Fugu'),
+    title: 'Fugu / TRINITY 复现验证 · Da Lei Research',
+    description: {
+      en: 'Reproducing and verifying the Fugu / TRINITY research results.',
+      zh: 'Fugu / TRINITY 研究结果的复现与验证。',
+    },
+    category: 'ai',
+    label: { en: 'Fugu / TRINITY', zh: 'Fugu / TRINITY 复现' },
+    loading: 'LOADING RESEARCH…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'copilot',
+    path: '/copilot',
+    load: () => import('./copilot/Copilot'),
+    title: 'Microsoft Copilot / Agent 产品矩阵 · 大雷',
+    description: {
+      en: 'A map of the Microsoft Copilot and agent product line-up and how the pieces fit.',
+      zh: 'Microsoft Copilot 与 Agent 产品矩阵梳理，看清各产品的关系。',
+    },
+    category: 'ai',
+    label: { en: 'Copilot Product Map', zh: 'Copilot 产品矩阵' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'copilotcamp',
+    path: '/copilotcamp',
+    load: () => import('./copilotcamp/CopilotCamp'),
+    title: 'Copilot Camp · Cowork 设置与扩展学习课 · 大雷',
+    description: {
+      en: 'Copilot Camp: a course on setting up and extending Copilot Cowork.',
+      zh: 'Copilot Camp：Cowork 设置与扩展学习课。',
+    },
+    category: 'workshop',
+    label: { en: 'Copilot Camp', zh: 'Copilot Camp' },
+    loading: 'LOADING COURSE…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'copilot-demo',
+    path: '/copilot-demo',
+    load: () => import('./copilotdemo/CopilotDemo'),
+    title: '让 Copilot 真正上岗｜CN Print 随课实践页',
+    description: {
+      en: 'Hands-on companion page for putting Copilot to work on real print-business tasks.',
+      zh: '随课实践页：让 Copilot 在真实印刷业务中上岗。',
+    },
+    category: 'workshop',
+    label: { en: 'Copilot at Work', zh: '让 Copilot 真正上岗' },
+    loading: 'LOADING COPILOT DEMO…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'promptforge',
+    path: '/promptforge',
+    load: () => import('./promptforge/PromptForge'),
+    title: '提示词锻造台 · PromptForge · 大雷',
+    description: {
+      en: 'Forge better prompts step by step with structured templates.',
+      zh: '用结构化模板一步步锻造更好的提示词。',
+    },
+    category: 'ai',
+    label: { en: 'PromptForge', zh: '提示词锻造台' },
+    loading: 'FORGING…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'notebooklm',
+    path: '/notebooklm',
+    load: () => import('./notebooklm/NotebookLM'),
+    title: 'NotebookLM 线画幻灯片提示词 · 大雷',
+    description: {
+      en: 'Prompts for line-drawing style slide decks in NotebookLM.',
+      zh: 'NotebookLM 线画风格幻灯片提示词。',
+    },
+    category: 'ai',
+    label: { en: 'NotebookLM Slides', zh: 'NotebookLM 线画幻灯片' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'aihtml',
+    path: '/aihtml',
+    load: () => import('./aihtml/AIHtmlLab'),
+    title: 'AI 做看得见的 HTML 小工具 · Workshop · 大雷',
+    description: {
+      en: 'Workshop: have AI build small, visible HTML tools you can use right away.',
+      zh: '工作坊：让 AI 做出看得见、马上能用的 HTML 小工具。',
+    },
+    category: 'workshop',
+    label: { en: 'AI HTML Lab', zh: 'AI HTML 小工具' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'text2image',
+    path: '/text2image',
+    load: () => import('./text2image/Text2Image'),
+    title: '文生图提示词工坊 · Text-to-Image · Workshop · 大雷',
+    description: {
+      en: 'Workshop for writing text-to-image prompts, with worked examples.',
+      zh: '文生图提示词工坊，附完整示例。',
+    },
+    category: 'workshop',
+    label: { en: 'Text-to-Image Workshop', zh: '文生图提示词工坊' },
+    loading: 'LOADING STUDIO…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'farmer',
+    path: '/farmer',
+    load: () => import('./farmer/FarmerRiver'),
+    title: '农夫过河 3D · Farmer Crosses the River · 大雷',
+    description: {
+      en: 'The classic river-crossing puzzle as a playable 3D scene.',
+      zh: '经典农夫过河谜题的可玩 3D 版本。',
+    },
+    category: 'creative',
+    label: { en: 'Farmer Crosses the River', zh: '农夫过河 3D' },
+    loading: 'LAUNCHING THE BOAT…',
+    fullScreen: true,
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'quyoubus',
+    path: '/quyoubus',
+    load: () => import('./quyoubus/QuyouBus'),
+    title: '趣游巴士 · AI 夜游 · Quyou Bus 3D · 大雷',
+    description: {
+      en: 'Ride an AI-guided night tour bus through a 3D city.',
+      zh: '乘坐 AI 导览的夜游巴士，穿行 3D 城市。',
+    },
+    category: 'creative',
+    label: { en: 'Quyou Bus', zh: '趣游巴士' },
+    loading: 'BOARDING THE BUS…',
+    fullScreen: true,
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'hpworkshop',
+    path: '/hpworkshop',
+    load: () => import('./hpworkshop/HPWorkshop'),
+    title: 'AI 实战工作坊演示面板 · 9 个 Copilot 案例 · 大雷',
+    description: {
+      en: 'Presenter dashboard for a hands-on AI workshop with nine Copilot cases.',
+      zh: 'AI 实战工作坊演示面板，收录 9 个 Copilot 案例。',
+    },
+    category: 'workshop',
+    label: { en: 'AI Workshop Dashboard', zh: 'AI 实战工作坊' },
+    loading: 'LOADING WORKSHOP…',
+    fullScreen: true,
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'agents',
+    path: '/agents',
+    load: loadAgents,
+    title: 'Agent 模板库 · Agent Templates · 大雷',
+    description: {
+      en: 'Ready-to-use agent templates with instructions you can copy.',
+      zh: '开箱即用的 Agent 模板，指令可直接复制。',
+    },
+    category: 'ai',
+    label: { en: 'Agent Templates', zh: 'Agent 模板库' },
+    loading: 'LOADING AGENTS…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'agents-template',
+    path: '/agents/:templateId',
+    load: loadAgents,
+    title: 'Agent 模板库 · Agent Templates · 大雷',
+    description: {
+      en: 'One ready-to-use agent template with a system prompt you can copy.',
+      zh: 'Agent 模板库中的一个模板，系统提示词可直接复制。',
+    },
+    category: 'ai',
+    label: { en: 'Agent Template', zh: 'Agent 模板' },
+    loading: 'LOADING AGENTS…',
+    parent: 'agents',
+  },
+  {
+    id: 'skills',
+    path: '/skills',
+    load: () => import('./skills/Skills'),
+    title: 'Skill 技能库 · Skill Library · 大雷',
+    description: {
+      en: 'A library of reusable agent skills, ready to install.',
+      zh: '可复用的 Agent 技能库，即装即用。',
+    },
+    category: 'ai',
+    label: { en: 'Skill Library', zh: 'Skill 技能库' },
+    loading: 'LOADING SKILLS…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'cat-skills',
+    path: '/cat-skills',
+    load: () => import('./catskills/CatAgentSkills'),
+    title: 'CAT Agent Skills 中文分发站 · 大雷',
+    description: {
+      en: 'Chinese mirror and guide for Microsoft CAT agent skills.',
+      zh: 'Microsoft CAT Agent Skills 中文分发站与使用指南。',
+    },
+    image: { src: '/cat-skills-cover.webp', width: 1440, height: 810 },
+    category: 'ai',
+    label: { en: 'CAT Agent Skills', zh: 'CAT Agent Skills' },
+    loading: 'LOADING CAT SKILLS…',
+    sitemap: { changefreq: 'weekly', priority: 0.9 },
+  },
+  {
+    id: 'uml',
+    path: '/uml',
+    load: () => import('./tools/PlantUML'),
+    title: 'PlantUML 渲染器 · 大雷',
+    description: {
+      en: 'Write PlantUML and see the diagram render live.',
+      zh: '编写 PlantUML，实时渲染图表。',
+    },
+    category: 'tool',
+    label: { en: 'PlantUML Renderer', zh: 'PlantUML 渲染器' },
+    loading: 'LOADING PLANTUML…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'town',
+    path: '/town',
+    load: () => import('./town/Smallville'),
+    title: 'Smallville 小镇 · 生成式智能体 · 大雷',
+    description: {
+      en: 'A Smallville-style town of generative agents living their day.',
+      zh: 'Smallville 风格的生成式智能体小镇。',
+    },
+    category: 'ai',
+    label: { en: 'Smallville', zh: 'Smallville 小镇' },
+    loading: 'LOADING SMALLVILLE…',
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'patterns',
+    path: '/patterns',
+    load: loadPatterns,
+    title: 'Agent 设计模式 · Agent Design Patterns · 大雷',
+    description: {
+      en: 'Agent design patterns explained layer by layer.',
+      zh: '逐层讲解 Agent 设计模式。',
+    },
+    category: 'ai',
+    label: { en: 'Agent Design Patterns', zh: 'Agent 设计模式' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'patterns-item',
+    path: '/patterns/:patternId',
+    load: loadPatterns,
+    title: 'Agent 设计模式 · Agent Design Patterns · 大雷',
+    description: {
+      en: 'One agent design pattern, placed on its layer of the agent loop.',
+      zh: 'Agent 回路中某一层上的一个设计模式。',
+    },
+    category: 'ai',
+    label: { en: 'Agent Design Pattern', zh: 'Agent 设计模式' },
+    loading: 'LOADING…',
+    parent: 'patterns',
+  },
+  {
+    id: 'prompts',
+    path: '/prompts',
+    load: loadPrompts,
+    title: '提示词库 · Prompt Library · 大雷',
+    description: {
+      en: 'A searchable library of tested prompts.',
+      zh: '可搜索的实测提示词库。',
+    },
+    category: 'ai',
+    label: { en: 'Prompt Library', zh: '提示词库' },
+    loading: 'LOADING PROMPTS…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'prompts-item',
+    path: '/prompts/:promptId',
+    load: loadPrompts,
+    title: '提示词库 · Prompt Library · 大雷',
+    description: {
+      en: 'One role prompt from the prompt library.',
+      zh: '提示词库中的一条角色提示词。',
+    },
+    category: 'ai',
+    label: { en: 'Prompt', zh: '提示词' },
+    loading: 'LOADING PROMPTS…',
+    parent: 'prompts',
+  },
+  {
+    id: 'cici',
+    path: '/cici',
+    load: () => import('./cici/CICI'),
+    title: 'CICI 指数 · 被人口辜负的城市（中国 · 日本）· 大雷',
+    description: {
+      en: 'The CICI index: cities let down by their population trends, in China and Japan.',
+      zh: 'CICI 指数：被人口辜负的城市（中国 · 日本）。',
+    },
+    category: 'creative',
+    label: { en: 'CICI Index', zh: 'CICI 指数' },
+    loading: 'LOADING CICI…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'designskill',
+    path: '/designskill',
+    load: () => import('./designskill/DesignSkill'),
+    title: '设计 Skill 实测 · Design Skill Lab · 大雷',
+    description: {
+      en: 'Testing design skills for AI agents side by side.',
+      zh: 'AI Agent 设计类 Skill 并排实测。',
+    },
+    category: 'ai',
+    label: { en: 'Design Skill Lab', zh: '设计 Skill 实测' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'videogen',
+    path: '/videogen',
+    load: () => import('./videogen/VideoGen'),
+    title: 'AI 视频生成流程 · 3 模型 1 Key · 大雷',
+    description: {
+      en: 'An AI video generation workflow: three models behind one API key.',
+      zh: 'AI 视频生成流程：3 个模型，1 个 Key。',
+    },
+    category: 'ai',
+    label: { en: 'AI Video Generation', zh: 'AI 视频生成' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'dino',
+    path: '/dino',
+    load: () => import('./dino/DinoBlaster'),
+    title: 'Dino Blaster · 加特林 vs 恐龙 · 大雷',
+    description: {
+      en: 'Dino Blaster: hold off the dinosaurs with a gatling gun.',
+      zh: 'Dino Blaster：用加特林挡住恐龙。',
+    },
+    category: 'creative',
+    label: { en: 'Dino Blaster', zh: '加特林 vs 恐龙' },
+    loading: 'LOADING DINOS…',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+  {
+    id: 'chengdu',
+    path: '/chengdu',
+    load: () => import('./chengdu/Chengdu'),
+    title: '成都指南 · 以太古里为原点 · 大雷',
+    description: {
+      en: 'A Chengdu guide that starts from Taikoo Li.',
+      zh: '以太古里为原点的成都指南。',
+    },
+    category: 'creative',
+    label: { en: 'Chengdu Guide', zh: '成都指南' },
+    loading: 'LOADING…',
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'lab3d',
+    path: '/lab3d',
+    load: loadLab3D,
+    title: '3D 提示词工作台 · 3D Prompt Lab · 大雷',
+    description: {
+      en: 'Browse and copy Three.js scene prompts; executed ones launch as live 3D pages.',
+      zh: '浏览并复制 Three.js 场景提示词，已执行的可直接打开真实 3D 页面。',
+    },
+    category: 'lab3d',
+    label: { en: '3D Prompt Lab', zh: '3D 提示词工作台' },
+    loading: 'LOADING 3D LAB…',
+    sitemap: { changefreq: 'weekly', priority: 0.8 },
+  },
+  {
+    id: 'lab3d-prompt',
+    path: '/lab3d/:sceneId',
+    load: loadLab3D,
+    title: '3D 提示词工作台 · 3D Prompt Lab · 大雷',
+    description: {
+      en: 'One Three.js scene prompt from the 3D prompt workbench.',
+      zh: '3D 提示词工作台中的一条 Three.js 场景提示词。',
+    },
+    category: 'lab3d',
+    label: { en: '3D Prompt', zh: '3D 提示词' },
+    loading: 'LOADING 3D LAB…',
+    parent: 'lab3d',
+  },
+  {
+    id: 'cappadocia',
+    path: '/cappadocia',
+    load: () => import('./lab3d/Cappadocia'),
+    title: '卡帕多奇亚热气球 · #26 已生成 · 大雷',
+    description: {
+      en: 'Hot-air balloons over Cappadocia at dawn, a live scene from prompt #26.',
+      zh: '黎明的卡帕多奇亚热气球，由 #26 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Cappadocia Balloons', zh: '卡帕多奇亚热气球' },
+    loading: 'INFLATING BALLOONS…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'zhangjiajie',
+    path: '/zhangjiajie',
+    load: () => import('./lab3d/Zhangjiajie'),
+    title: '张家界雾中滑翔 · #30 已生成 · 大雷',
+    description: {
+      en: 'Glide through the misty Zhangjiajie pillars, a live scene from prompt #30.',
+      zh: '在张家界雾中石柱间滑翔，由 #30 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Zhangjiajie Glide', zh: '张家界雾中滑翔' },
+    loading: 'RAISING THE PILLARS…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'niagara',
+    path: '/niagara',
+    load: () => import('./lab3d/Niagara'),
+    title: '尼亚加拉活瀑布 · #53 已生成 · 大雷',
+    description: {
+      en: 'Ride a boat into Niagara Falls, a live scene from prompt #53.',
+      zh: '乘船驶入尼亚加拉瀑布，由 #53 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Niagara Falls', zh: '尼亚加拉活瀑布' },
+    loading: 'OPENING THE FALLS…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'fireflies',
+    path: '/fireflies',
+    load: () => import('./lab3d/Fireflies'),
+    title: '萤火虫同步之光 · #56 已生成 · 大雷',
+    description: {
+      en: 'Synchronous fireflies lighting up a forest, a live scene from prompt #56.',
+      zh: '萤火虫同步闪烁的森林，由 #56 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Synchronous Fireflies', zh: '萤火虫同步之光' },
+    loading: 'WAKING THE FIREFLIES…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'harbin',
+    path: '/harbin',
+    load: () => import('./lab3d/Harbin'),
+    title: '哈尔滨冰雪大世界 · #8 已生成 · 大雷',
+    description: {
+      en: 'Walk into the Harbin Ice and Snow World, a live scene from prompt #8.',
+      zh: '走进哈尔滨冰雪大世界，由 #8 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Harbin Ice City', zh: '哈尔滨冰雪大世界' },
+    loading: 'CARVING THE ICE CITY…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'forbiddencity',
+    path: '/forbiddencity',
+    load: () => import('./lab3d/ForbiddenCity'),
+    title: '紫禁城初雪 · #9 已生成 · 大雷',
+    description: {
+      en: 'First snow on the Forbidden City, a live scene from prompt #9.',
+      zh: '紫禁城的第一场雪，由 #9 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Forbidden City Snow', zh: '紫禁城初雪' },
+    loading: 'SNOW ON THE PALACE…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'brooksfalls',
+    path: '/brooksfalls',
+    load: () => import('./lab3d/BrooksFalls'),
+    title: '布鲁克斯瀑布鲑鱼洄游 · #59 已生成 · 大雷',
+    description: {
+      en: 'The salmon run at Brooks Falls, a live scene from prompt #59.',
+      zh: '布鲁克斯瀑布的鲑鱼洄游，由 #59 提示词生成的真实场景。',
+    },
+    category: 'lab3d',
+    label: { en: 'Brooks Falls Salmon Run', zh: '布鲁克斯瀑布鲑鱼洄游' },
+    loading: 'THE RUN BEGINS…',
+    parent: 'lab3d',
+    fullScreen: true,
+    sitemap: { changefreq: 'monthly', priority: 0.7 },
+  },
+  {
+    id: 'vibe-check',
+    path: '/vibe-check',
+    load: () => import('./vibecheck/VibeCheck'),
+    title: '你的隐藏气质是什么？· 纯娱乐测试 · 大雷',
+    description: {
+      en: 'A just-for-fun quiz that reveals your hidden vibe.',
+      zh: '纯娱乐小测试：看看你的隐藏气质是什么。',
+    },
+    category: 'creative',
+    label: { en: 'Vibe Check', zh: '隐藏气质测试' },
+    loading: 'READING YOUR VIBE…',
+    sitemap: { changefreq: 'monthly', priority: 0.8 },
+  },
+] as const satisfies readonly RouteDef[];
+
+export type RouteId = (typeof ROUTES)[number]['id'];
+
+export const HOME_ROUTE: RouteDef = ROUTES[0];
+
+const ROUTE_BY_ID = new Map<string, RouteDef>(ROUTES.map((route) => [route.id, route]));
+
+export const getRoute = (id: RouteId): RouteDef => ROUTE_BY_ID.get(id)!;
+
+export interface RouteMatch {
+  route: RouteDef;
+  params: Record<string, string>;
+}
+
+const segmentsOf = (path: string) => path.split('/').filter(Boolean);
+
+// Static paths win over param paths, then longer paths over shorter ones,
+// so '/lab3d' never shadows '/lab3d/:sceneId' and vice versa.
+const MATCH_ORDER: { route: RouteDef; segments: string[] }[] = ROUTES.filter((route) => route.id !== 'home')
+  .map((route: RouteDef) => ({ route, segments: segmentsOf(route.path) }))
+  .sort((a, b) => {
+    const dynamic = (segments: string[]) => segments.some((s) => s.startsWith(':'));
+    return Number(dynamic(a.segments)) - Number(dynamic(b.segments)) || b.segments.length - a.segments.length;
+  });
+
+// A malformed escape (/lab3d/%E0) makes the segment unmatchable rather than throwing
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+// Compares whole segments against the END of the path, so the site also works
+// under a sub-path deployment ('/preview/farmer').
+const matchPath = (path: string): RouteMatch | null => {
+  const segments = segmentsOf(path);
+  for (const { route, segments: pattern } of MATCH_ORDER) {
+    if (pattern.length > segments.length) continue;
+    const tail = segments.slice(segments.length - pattern.length);
+    const params: Record<string, string> = {};
+    const matches = pattern.every((part, i) => {
+      if (part.startsWith(':')) {
+        const value = decodeSegment(tail[i]);
+        if (value === null) return false;
+        params[part.slice(1)] = value;
+        return true;
+      }
+      return part === tail[i];
+    });
+    if (matches) return { route, params };
+  }
+  return null;
+};
+
+/** Resolve a location to its route; `#/farmer` hash links work as well as paths. */
+export const matchRoute = (pathname: string, hash = ''): RouteMatch =>
+  (hash.startsWith('#/') ? matchPath(hash.slice(1)) : null) ??
+  matchPath(pathname) ?? { route: HOME_ROUTE, params: {} };
+
+/** Build a concrete path, filling `:name` segments from params. */
+export const routeHref = (id: RouteId, params: Record<string, string> = {}): string =>
+  getRoute(id).path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name] ?? ''));
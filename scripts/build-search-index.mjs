@@ -0,0 +1,34 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { pinyin } from 'pinyin-pro';
+import { runnerImport } from 'vite';
+
+// Runs before `vite` and `vite build`: gathers the items inside pages from their
+// data modules (data/searchSources.ts) into public/search-index.json for the ⌘K
+// palette, plus the pinyin of every Chinese title it shows — project cards and
+// routes included — so "tishici" finds 提示词库 without shipping a pinyin table.
+const outFile = resolve('public/search-index.json');
+const { module: sources } = await runnerImport(resolve('data/searchSources.ts'));
+const { module: routes } = await runnerImport(resolve('routes.ts'));
+const { module: site } = await runnerImport(resolve('data/site.ts'));
+
+const docs = sources.collectSearchDocs();
+
+const HAN = /\p{Script=Han}/u;
+const pinyinKey = (text) => {
+  const options = { toneType: 'none', type: 'array', nonZh: 'removed' };
+  const full = pinyin(text, options).join('');
+  const initials = pinyin(text, { ...options, pattern: 'first' }).join('');
+  return `${full} ${initials}`.toLowerCase();
+};
+
+const titles = [
+  ...docs.map((doc) => doc.title.zh),
+  ...routes.ROUTES.map((route) => route.label.zh),
+  ...site.PROJECTS.map((project) => project.title.zh),
+];
+const pinyinMap = Object.fromEntries(titles.filter((zh) => HAN.test(zh)).map((zh) => [zh, pinyinKey(zh)]));
+
+mkdirSync(dirname(outFile), { recursive: true });
+writeFileSync(outFile, JSON.stringify({ docs, pinyin: pinyinMap }));
+console.log(`search index: ${docs.length} items, ${Object.keys(pinyinMap).length} pinyin titles → public/search-index.json`);
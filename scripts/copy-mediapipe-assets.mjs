@@ -0,0 +1,34 @@
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+// Serve the MediaPipe Hands WASM + model from our own origin so hand tracking works offline.
+// Runs before dev/build; output is git-ignored because it is regenerated from node_modules.
+const sourceRoot = resolve('node_modules', '@mediapipe', 'hands');
+const outputRoot = resolve('public', 'mediapipe', 'hands');
+const ASSET_PATTERN = /\.(wasm|data|tflite|binarypb|js)$/;
+
+if (!existsSync(sourceRoot)) {
+  throw new Error(`@mediapipe/hands not installed: ${sourceRoot}`);
+}
+
+mkdirSync(outputRoot, { recursive: true });
+
+let copied = 0;
+for (const name of readdirSync(sourceRoot)) {
+  if (!ASSET_PATTERN.test(name) || name === 'hands.js') continue;
+
+  const source = join(sourceRoot, name);
+  const target = join(outputRoot, name);
+  // Skip unchanged files so `npm run dev` stays fast
+  if (existsSync(target) && statSync(target).size === statSync(source).size && statSync(target).mtimeMs >= statSync(source).mtimeMs) {
+    continue;
+  }
+  copyFileSync(source, target);
+  copied++;
+}
+
+// public/sw.js names its MediaPipe cache after this, so a new package version replaces the cached copy
+const { version } = JSON.parse(readFileSync(join(sourceRoot, 'package.json'), 'utf8'));
+writeFileSync(resolve('public', 'mediapipe', 'sw-version.js'), `self.MEDIAPIPE_VERSION = ${JSON.stringify(version)};\n`);
+
+console.log(`MediaPipe Hands ${version} assets: ${copied} copied to ${outputRoot}`);
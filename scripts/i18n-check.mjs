@@ -0,0 +1,96 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import ts from 'typescript';
+
+// Translation completeness, straight from the source: every `{ en, zh }` object
+// literal is a LocalizedText, and any of en/zh/ja/ko that is absent or '' is an
+// untranslated string. Prints a per-page summary; name pages to list their
+// strings (`npm run i18n:check -- farmer cici`), add `--lang ja` to narrow it.
+//   The runtime counterpart is `__i18nMissing()` in the browser console, which
+// only knows about strings that have actually rendered.
+const root = resolve('.');
+const FIELDS = ['en', 'zh', 'ja', 'ko'];
+const SKIP = new Set(['node_modules', 'dist', 'public', 'scripts', 'i18n']);
+
+const args = process.argv.slice(2);
+const langAt = args.indexOf('--lang');
+const onlyLang = langAt >= 0 ? args.splice(langAt, 2)[1] : null;
+const pages = new Set(args);
+if (onlyLang && !FIELDS.includes(onlyLang)) {
+  console.error(`Unknown --lang ${onlyLang} (expected ${FIELDS.join(', ')})`);
+  process.exit(1);
+}
+
+const sources = (dir) =>
+  readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.name.startsWith('.') || SKIP.has(entry.name)) return [];
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return sources(path);
+    return /\.tsx?$/.test(entry.name) && !entry.name.endsWith('.d.ts') ? [path] : [];
+  });
+
+// A page is its top-level directory; root files, data/ and components/ are the
+// shared site chrome.
+const pageOf = (file) => {
+  const [head, ...rest] = relative(root, file).split(/[\\/]/);
+  return rest.length === 0 || head === 'data' || head === 'components' ? 'site' : head;
+};
+
+const keyOf = (prop) =>
+  ts.isPropertyAssignment(prop) && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name)) ? prop.name.text : null;
+
+const isEmpty = (node) => (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && node.text === '';
+
+/** Every LocalizedText literal in a file, with the fields it lacks. */
+const scan = (file) => {
+  const text = readFileSync(file, 'utf8');
+  const source = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true, file.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+  const found = [];
+  const visit = (node) => {
+    if (ts.isObjectLiteralExpression(node)) {
+      const props = new Map(node.properties.map((prop) => [keyOf(prop), prop]));
+      if (props.has('en') && props.has('zh')) {
+        const missing = FIELDS.filter((field) => !props.has(field) || isEmpty(props.get(field).initializer));
+        const en = props.get('en').initializer;
+        const label = (isEmpty(en) ? props.get('zh').initializer : en).getText(source).replace(/\s+/g, ' ');
+        const { line } = source.getLineAndCharacterOfPosition(node.getStart(source));
+        found.push({ file: relative(root, file), line: line + 1, label, missing });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return found;
+};
+
+const byPage = new Map();
+for (const file of sources(root)) {
+  const strings = scan(file);
+  if (!strings.length) continue;
+  const page = pageOf(file);
+  byPage.set(page, [...(byPage.get(page) ?? []), ...strings]);
+}
+
+const fields = onlyLang ? [onlyLang] : FIELDS;
+const pct = (done, total) => `${Math.floor((done / total) * 100)}%`.padStart(5);
+const rows = [...byPage].sort(([a], [b]) => a.localeCompare(b));
+
+console.log(`${'page'.padEnd(14)} ${'strings'.padStart(7)}  ${fields.map((f) => f.padStart(5)).join(' ')}`);
+for (const [page, strings] of rows) {
+  const done = fields.map((field) => pct(strings.filter((s) => !s.missing.includes(field)).length, strings.length));
+  console.log(`${page.padEnd(14)} ${String(strings.length).padStart(7)}  ${done.join(' ')}`);
+}
+
+for (const [page, strings] of rows) {
+  if (!pages.has(page)) continue;
+  const untranslated = strings.filter((s) => s.missing.some((field) => fields.includes(field)));
+  console.log(`\n${page} — ${untranslated.length} untranslated`);
+  for (const s of untranslated) {
+    const lacks = s.missing.filter((field) => fields.includes(field)).join(',');
+    const label = s.label.length > 72 ? `${s.label.slice(0, 71)}…` : s.label;
+    console.log(`  ${`${s.file}:${s.line}`.padEnd(34)} [${lacks}] ${label}`);
+  }
+}
+
+const unknown = [...pages].filter((page) => !byPage.has(page));
+if (unknown.length) console.error(`\nNo translatable strings found for: ${unknown.join(', ')}`);
@@ -0,0 +1,44 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { runnerImport } from 'vite';
+
+// Runs after `vite build`: writes a static HTML shell per route with its own title,
+// description and share tags, plus sitemap.xml and robots.txt, all from routes.ts.
+// Hosts serve dist/<route>/index.html before falling back to the SPA rewrite, so a
+// shared /farmer link previews the farmer page. Page modules sit behind dynamic
+// imports in the route table, so loading it here never evaluates them.
+const outDir = resolve('dist');
+const { module: routes } = await runnerImport(resolve('routes.ts'));
+const { module: seo } = await runnerImport(resolve('seo.ts'));
+const { ROUTES, SITE_URL } = routes;
+
+const template = readFileSync(join(outDir, 'index.html'), 'utf8');
+
+let shells = 0;
+for (const route of ROUTES) {
+  // The homepage is index.html itself; param routes have no single URL to prerender
+  if (route.path === '/' || route.path.includes(':')) continue;
+  const target = join(outDir, route.path, 'index.html');
+  // Separate Vite entries (copilot-demo/index.html) already own their path
+  if (existsSync(target)) continue;
+  mkdirSync(join(outDir, route.path), { recursive: true });
+  writeFileSync(target, seo.renderPageMeta(template, seo.pageMeta(route)));
+  shells++;
+}
+
+const urls = ROUTES.filter((route) => route.sitemap).map((route) =>
+  [
+    '  <url>',
+    `    <loc>${SITE_URL}${route.path}</loc>`,
+    `    <changefreq>${route.sitemap.changefreq}</changefreq>`,
+    `    <priority>${route.sitemap.priority.toFixed(1)}</priority>`,
+    '  </url>',
+  ].join('\n')
+);
+writeFileSync(
+  join(outDir, 'sitemap.xml'),
+  ['<?xml version="1.0" encoding="UTF-8"?>', '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">', ...urls, '</urlset>', ''].join('\n')
+);
+writeFileSync(join(outDir, 'robots.txt'), `User-agent: *\nAllow: /\n\nSitemap: ${SITE_URL}/sitemap.xml\n`);
+
+console.log(`Prerendered ${shells} route shells, ${urls.length} sitemap URLs in ${outDir}`);
@@ -0,0 +1,67 @@
+import { RouteDef, SITE_URL } from './routes';
+
+/* ---------------------------------------------------------------------------
+ * Per-page <head> metadata. The router applies it on every navigation, and
+ * scripts/prerender.mjs writes the same tags into a static HTML shell per
+ * route at build time, so link previews and crawlers that don't run JS see
+ * the right page instead of the homepage.
+ * ------------------------------------------------------------------------- */
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  url: string;
+  image: { url: string; width: number; height: number };
+}
+
+const DEFAULT_IMAGE = { src: '/og.png', width: 1200, height: 630 };
+
+/** Metadata for a route; params fill its `:name` segments for the canonical URL. */
+export const pageMeta = (route: RouteDef, params: Record<string, string> = {}): PageMeta => {
+  const path = route.path.replace(/:(\w+)/g, (_, name: string) => encodeURIComponent(params[name] ?? ''));
+  const image = route.image ?? DEFAULT_IMAGE;
+  return {
+    title: route.title,
+    description: route.description.zh,
+    url: `${SITE_URL}${path}`,
+    image: { url: `${SITE_URL}${image.src}`, width: image.width, height: image.height },
+  };
+};
+
+// The tags index.html already declares; only their values change per page
+const META_TAGS: ['name' | 'property', string, (meta: PageMeta) => string][] = [
+  ['name', 'description', (m) => m.description],
+  ['property', 'og:title', (m) => m.title],
+  ['property', 'og:description', (m) => m.description],
+  ['property', 'og:url', (m) => m.url],
+  ['property', 'og:image', (m) => m.image.url],
+  ['property', 'og:image:width', (m) => String(m.image.width)],
+  ['property', 'og:image:height', (m) => String(m.image.height)],
+  ['name', 'twitter:title', (m) => m.title],
+  ['name', 'twitter:description', (m) => m.description],
+  ['name', 'twitter:image', (m) => m.image.url],
+];
+
+/** Update the live document (client-side navigation). */
+export const applyPageMeta = (meta: PageMeta) => {
+  document.title = meta.title;
+  for (const [attr, key, value] of META_TAGS) {
+    document.head.querySelector(`meta[${attr}="${key}"]`)?.setAttribute('content', value(meta));
+  }
+  document.head.querySelector('link[rel="canonical"]')?.setAttribute('href', meta.url);
+};
+
+const escapeAttr = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Rewrite the same tags in an HTML string (build-time prerendering). */
+export const renderPageMeta = (html: string, meta: PageMeta): string => {
+  let out = html.replace(/<title>[^<]*<\/title>/, `<title>${escapeAttr(meta.title)}</title>`);
+  for (const [attr, key, value] of META_TAGS) {
+    const tag = new RegExp(`(<meta\\s+${attr}="${escapeRegExp(key)}"\\s+content=")[^"]*(")`);
+    out = out.replace(tag, (_, open: string, close: string) => `${open}${escapeAttr(value(meta))}${close}`);
+  }
+  return out.replace(/(<link\s+rel="canonical"\s+href=")[^"]*(")/, (_, open: string, close: string) => `${open}${meta.url}${close}`);
+};
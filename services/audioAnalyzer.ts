@@ -0,0 +1,139 @@
+export type AudioBand = 'bass' | 'mid' | 'treble' | 'level';
+
+export interface AudioLevels {
+  bass: number; // 0..1 energy per band
+  mid: number;
+  treble: number;
+  level: number; // Whole-spectrum energy
+  beat: boolean; // True on the frame a bass onset is detected
+}
+
+// Which audio feature drives which particle parameter ('off' leaves it to the hands)
+export interface AudioMapping {
+  tension: AudioBand | 'off';
+  burst: boolean;
+  color: AudioBand | 'off';
+}
+
+export const AUDIO_BANDS: AudioBand[] = ['bass', 'mid', 'treble', 'level'];
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = { tension: 'bass', burst: true, color: 'treble' };
+
+const SILENCE: AudioLevels = { bass: 0, mid: 0, treble: 0, level: 0, beat: false };
+
+// Band edges in Hz
+const BANDS: Record<Exclude<AudioBand, 'level'>, [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 8000],
+};
+
+const BEAT_THRESHOLD = 1.35; // Bass must exceed its running average by this factor
+const BEAT_FLOOR = 0.3; // ...and be at least this loud
+const BEAT_COOLDOWN = 250; // ms between onsets
+
+export class AudioAnalyzer {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+  private audio: HTMLAudioElement | null = null;
+  private spectrum = new Uint8Array(0);
+  private bassAverage = 0;
+  private lastBeat = 0;
+  private lastSample = -Infinity;
+  private levels: AudioLevels = SILENCE;
+
+  get isActive(): boolean {
+    return this.analyser !== null;
+  }
+
+  async startMicrophone() {
+    this.stop();
+    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const context = this.createContext();
+    this.connect(context.createMediaStreamSource(this.stream), false);
+  }
+
+  // Play an audio file through the speakers while analysing it
+  async startFile(file: File) {
+    this.stop();
+    this.audio = new Audio(URL.createObjectURL(file));
+    this.audio.loop = true;
+    const context = this.createContext();
+    this.connect(context.createMediaElementSource(this.audio), true);
+    try {
+      await this.audio.play();
+    } catch (err) {
+      this.stop(); // Don't leave the object URL and context half set up
+      throw err;
+    }
+  }
+
+  stop() {
+    this.source?.disconnect();
+    this.source = null;
+    this.analyser = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    if (this.audio) {
+      this.audio.pause();
+      URL.revokeObjectURL(this.audio.src);
+      this.audio = null;
+    }
+    this.context?.close();
+    this.context = null;
+    this.levels = SILENCE;
+  }
+
+  /**
+   * Current band energies. Safe to call from several render loops per frame: the
+   * spectrum is only re-read (and beats only detected) once every few milliseconds.
+   */
+  sample(now: number = performance.now()): AudioLevels {
+    if (!this.analyser || !this.context) return SILENCE;
+    if (now - this.lastSample < 4) return this.levels;
+    this.lastSample = now;
+
+    this.analyser.getByteFrequencyData(this.spectrum);
+    const binWidth = this.context.sampleRate / this.analyser.fftSize;
+    const bandEnergy = ([low, high]: [number, number]) => {
+      const from = Math.max(1, Math.floor(low / binWidth));
+      const to = Math.min(this.spectrum.length, Math.ceil(high / binWidth));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.spectrum[i];
+      return to > from ? sum / ((to - from) * 255) : 0;
+    };
+
+    const bass = bandEnergy(BANDS.bass);
+    const mid = bandEnergy(BANDS.mid);
+    const treble = bandEnergy(BANDS.treble);
+
+    // Onset: a bass spike well above the recent average
+    const beat = bass > this.bassAverage * BEAT_THRESHOLD && bass > BEAT_FLOOR && now - this.lastBeat > BEAT_COOLDOWN;
+    if (beat) this.lastBeat = now;
+    this.bassAverage = this.bassAverage * 0.95 + bass * 0.05;
+
+    this.levels = { bass, mid, treble, level: (bass + mid + treble) / 3, beat };
+    return this.levels;
+  }
+
+  private createContext(): AudioContext {
+    const Context = window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    this.context = new Context();
+    return this.context;
+  }
+
+  private connect(source: AudioNode, audible: boolean) {
+    const analyser = this.context!.createAnalyser();
+    analyser.fftSize = 1024;
+    analyser.smoothingTimeConstant = 0.6;
+    source.connect(analyser);
+    if (audible) analyser.connect(this.context!.destination);
+
+    this.source = source;
+    this.analyser = analyser;
+    this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+    this.bassAverage = 0;
+  }
+}
@@ -1,4 +1,6 @@
 import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
+import { ParticleShape } from '../types';
+import { GestureAction, parseGestureAction } from './gestureMapping';
 
 // Tool definition for Gemini to report hand state
 const updateHandStateTool: FunctionDeclaration = {
@@ -20,6 +22,73 @@ const updateHandStateTool: FunctionDeclaration = {
   },
 };
 
+// Voice control tools - each call becomes the matching GestureAction
+const voiceCommandTools: FunctionDeclaration[] = [
+  {
+    name: 'setShape',
+    description: 'Change the shape the particles form.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        shape: {
+          type: Type.STRING,
+          enum: Object.values(ParticleShape),
+          description: 'Target particle shape.',
+        },
+      },
+      required: ['shape'],
+    },
+  },
+  {
+    name: 'setColor',
+    description: 'Change the particle color.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        color: {
+          type: Type.STRING,
+          description: 'Hex color in #rrggbb form, e.g. #ffd700 for gold.',
+        },
+      },
+      required: ['color'],
+    },
+  },
+  {
+    name: 'setText',
+    description: 'Change the text shown by the Text shape.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: {
+          type: Type.STRING,
+          description: 'Short text to spell out with particles.',
+        },
+      },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'burst',
+    description: 'Make the particles explode outward.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        strength: {
+          type: Type.NUMBER,
+          description: '0.1 is a gentle puff, 1.0 a full explosion.',
+        },
+      },
+    },
+  },
+];
+
+const VOICE_INSTRUCTION = `You also control a particle visualisation by voice. When the user asks for a change, call the matching function:
+- setShape for shapes (${Object.values(ParticleShape).join(', ')})
+- setColor with a #rrggbb hex value for colors ("gold" is #ffd700)
+- setText to spell out words; also call setShape with "${ParticleShape.TEXT}" so the text is visible
+- burst for explosions
+One request may need several calls, e.g. "make it a galaxy in gold" is setShape + setColor. Never answer with text.`;
+
 export class GeminiLiveService {
   private ai: GoogleGenAI;
   private sessionPromise: Promise<any> | null = null;
@@ -28,10 +97,17 @@ export class GeminiLiveService {
   private outputAudioContext: AudioContext | null = null;
   private nextStartTime: number = 0;
   private sources: Set<AudioBufferSourceNode> = new Set();
+  private onAction: ((action: GestureAction) => void) | null;
 
-  constructor(apiKey: string, onUpdate: (data: { tension: number; detected: boolean }) => void) {
+  // Pass onAction to enable the voice command tools (setShape/setColor/setText/burst)
+  constructor(
+    apiKey: string,
+    onUpdate: (data: { tension: number; detected: boolean }) => void,
+    onAction: ((action: GestureAction) => void) | null = null
+  ) {
     this.ai = new GoogleGenAI({ apiKey });
     this.onUpdate = onUpdate;
+    this.onAction = onAction;
   }
 
   async connect(stream: MediaStream) {
@@ -71,7 +147,8 @@ export class GeminiLiveService {
           // Handle Tool Calls (Hand Detection)
           if (message.toolCall) {
             console.log('Tool call received!', message.toolCall);
-            for (const fc of message.toolCall.functionCalls) {
+            for (const fc of message.toolCall.functionCalls ?? []) {
+              let result = 'ok';
               if (fc.name === 'updateHandState') {
                 const args = fc.args as any;
                 console.log('Hand state update:', args);
@@ -79,17 +156,26 @@ export class GeminiLiveService {
                   tension: args.tension || 0,
                   detected: args.detected || false,
                 });
-                
-                this.sessionPromise?.then((session) => {
-                  session.sendToolResponse({
-                    functionResponses: {
-                      id: fc.id,
-                      name: fc.name,
-                      response: { result: 'ok' },
-                    },
-                  });
-                });
+              } else if (this.onAction && voiceCommandTools.some((tool) => tool.name === fc.name)) {
+                try {
+                  this.onAction(parseGestureAction({ ...fc.args, type: fc.name }));
+                } catch (err) {
+                  // Let the model correct itself, e.g. a color name instead of hex
+                  result = err instanceof Error ? err.message : 'invalid arguments';
+                }
+              } else {
+                result = `unknown function ${fc.name}`;
               }
+
+              this.sessionPromise?.then((session) => {
+                session.sendToolResponse({
+                  functionResponses: {
+                    id: fc.id,
+                    name: fc.name,
+                    response: { result },
+                  },
+                });
+              });
             }
           }
 
@@ -121,8 +207,8 @@ export class GeminiLiveService {
 If you see hands: set detected=true and estimate tension (0=open palm, 1=closed fist).
 If no hands visible: set detected=false and tension=0.
 
-IMPORTANT: Always call the function, never respond with text.`,
-        tools: [{ functionDeclarations: [updateHandStateTool] }],
+IMPORTANT: Always call the function, never respond with text.${this.onAction ? `\n\n${VOICE_INSTRUCTION}` : ''}`,
+        tools: [{ functionDeclarations: this.onAction ? [updateHandStateTool, ...voiceCommandTools] : [updateHandStateTool] }],
       },
     });
     
@@ -0,0 +1,148 @@
+import { NormalizedLandmark } from '@mediapipe/hands';
+import { CustomGesture, GestureType } from '../types';
+
+export interface CustomGestureDefinition {
+  id: CustomGesture;
+  name: string;
+  samples: number[][]; // Normalized landmark vectors (21 x xyz)
+}
+
+export interface GestureMatch {
+  gesture: CustomGesture;
+  distance: number;
+}
+
+const STORAGE_KEY = 'kinetic-custom-gestures-v1';
+
+// Neighbours that vote on each classification
+const K = 5;
+// Mean per-coordinate distance above which a pose counts as "not a trained gesture"
+const MAX_DISTANCE = 0.35;
+
+export const isCustomGesture = (gesture: GestureType): gesture is CustomGesture => gesture.startsWith('custom:');
+
+export const customGestureId = (name: string): CustomGesture =>
+  `custom:${name.trim().toLowerCase().replace(/\s+/g, '_')}`;
+
+/**
+ * Turn 21 MediaPipe landmarks into a pose vector that ignores where the hand is,
+ * how big it appears and how it is rotated in the image plane: wrist at the origin,
+ * wrist → middle-finger MCP as the unit "up" axis. Left hands are mirrored so one
+ * recording works for both hands.
+ */
+export const normalizeLandmarks = (landmarks: NormalizedLandmark[], mirror: boolean = false): number[] => {
+  const wrist = landmarks[0];
+  const palmBase = landmarks[9];
+  const sign = mirror ? -1 : 1;
+
+  const ux = (palmBase.x - wrist.x) * sign;
+  const uy = palmBase.y - wrist.y;
+  const uz = (palmBase.z || 0) - (wrist.z || 0);
+  const palmSize = Math.sqrt(ux * ux + uy * uy + uz * uz) || 1;
+
+  // Rotate so the palm axis points to -y (up in image space)
+  const angle = Math.atan2(ux, -uy);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const vector: number[] = [];
+  for (const point of landmarks) {
+    const x = ((point.x - wrist.x) * sign) / palmSize;
+    const y = (point.y - wrist.y) / palmSize;
+    const z = ((point.z || 0) - (wrist.z || 0)) / palmSize;
+    vector.push(x * cos - y * sin, x * sin + y * cos, z);
+  }
+  return vector;
+};
+
+const meanDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum / a.length);
+};
+
+// k-nearest-neighbour classifier over recorded pose vectors, persisted to localStorage
+export class GestureClassifier {
+  private gestures: CustomGestureDefinition[] = [];
+
+  constructor() {
+    this.load();
+  }
+
+  list(): CustomGestureDefinition[] {
+    return this.gestures;
+  }
+
+  nameOf(gesture: GestureType): string {
+    return this.gestures.find((g) => g.id === gesture)?.name ?? gesture;
+  }
+
+  addSamples(name: string, samples: number[][]): CustomGesture {
+    const id = customGestureId(name);
+    // Replace rather than mutate so list() can be used as React state
+    const existing = this.gestures.find((g) => g.id === id);
+    this.gestures = existing
+      ? this.gestures.map((g) => (g === existing ? { ...g, samples: [...g.samples, ...samples] } : g))
+      : [...this.gestures, { id, name: name.trim(), samples }];
+    this.save();
+    return id;
+  }
+
+  remove(id: CustomGesture) {
+    this.gestures = this.gestures.filter((g) => g.id !== id);
+    this.save();
+  }
+
+  classify(vector: number[]): GestureMatch | null {
+    const neighbours: GestureMatch[] = [];
+    for (const gesture of this.gestures) {
+      for (const sample of gesture.samples) {
+        if (sample.length !== vector.length) continue;
+        neighbours.push({ gesture: gesture.id, distance: meanDistance(vector, sample) });
+      }
+    }
+    if (neighbours.length === 0) return null;
+
+    neighbours.sort((a, b) => a.distance - b.distance);
+    const nearest = neighbours.slice(0, K).filter((n) => n.distance < MAX_DISTANCE);
+    if (nearest.length === 0) return null;
+
+    // Majority vote, ties broken by the closer neighbour
+    const votes = new Map<CustomGesture, number>();
+    for (const n of nearest) {
+      votes.set(n.gesture, (votes.get(n.gesture) ?? 0) + 1);
+    }
+    let best = nearest[0];
+    for (const n of nearest) {
+      if ((votes.get(n.gesture) ?? 0) > (votes.get(best.gesture) ?? 0)) best = n;
+    }
+    // Require a majority of the K votes so a single stray sample can't fire a gesture
+    if ((votes.get(best.gesture) ?? 0) < Math.ceil(Math.min(K, neighbours.length) / 2)) return null;
+    return best;
+  }
+
+  private load() {
+    if (typeof window === 'undefined') return;
+    try {
+      const saved = window.localStorage.getItem(STORAGE_KEY);
+      const parsed = saved ? JSON.parse(saved) : [];
+      this.gestures = Array.isArray(parsed)
+        ? parsed.filter((g) => typeof g?.id === 'string' && isCustomGesture(g.id) && Array.isArray(g.samples))
+        : [];
+    } catch (err) {
+      console.warn('Ignoring saved custom gestures:', err);
+      this.gestures = [];
+    }
+  }
+
+  private save() {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.gestures));
+    } catch {
+      /* private mode / quota */
+    }
+  }
+}
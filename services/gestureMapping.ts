@@ -0,0 +1,147 @@
+import { BuiltinGesture, GestureType, ParticleShape } from '../types';
+
+export type GestureAction =
+  | { type: 'setShape'; shape: ParticleShape }
+  | { type: 'setColor'; color: string }
+  | { type: 'setText'; text: string }
+  | { type: 'burst'; strength: number } // 0..1, scaled into burst energy
+  | { type: 'toggleRotation' };
+
+export type GestureActionType = GestureAction['type'];
+
+export type GestureMapping = Partial<Record<GestureType, GestureAction[]>>;
+
+// Built-in gestures that can carry actions ('none' is the absence of a gesture).
+// Trained custom gestures are appended at runtime.
+export const MAPPABLE_GESTURES: BuiltinGesture[] = ['victory', 'love', 'thumbs_up', 'point', 'open', 'fist'];
+
+export const GESTURE_ICONS: Record<BuiltinGesture, string> = {
+  none: '·',
+  open: '🖐️',
+  fist: '✊',
+  victory: '✌️',
+  love: '🤟',
+  thumbs_up: '👍',
+  point: '☝️',
+};
+
+export const CUSTOM_GESTURE_ICON = '✋';
+
+export const gestureIcon = (gesture: GestureType): string =>
+  gesture in GESTURE_ICONS ? GESTURE_ICONS[gesture as BuiltinGesture] : CUSTOM_GESTURE_ICON;
+
+export const ACTION_TYPES: GestureActionType[] = ['setShape', 'setColor', 'setText', 'burst', 'toggleRotation'];
+
+// Matches the behaviour that used to be hard-coded in App.tsx
+export const DEFAULT_GESTURE_MAPPING: GestureMapping = {
+  victory: [
+    { type: 'setShape', shape: ParticleShape.TEXT },
+    { type: 'setColor', color: '#ffd700' }, // Gold
+  ],
+  love: [
+    { type: 'setShape', shape: ParticleShape.HEART },
+    { type: 'setColor', color: '#ec4899' }, // Pink
+  ],
+  thumbs_up: [
+    { type: 'setShape', shape: ParticleShape.FIREWORKS },
+    { type: 'setColor', color: '#ef4444' }, // Red
+  ],
+  point: [
+    { type: 'setShape', shape: ParticleShape.SATURN },
+    { type: 'setColor', color: '#06b6d4' }, // Cyan
+  ],
+};
+
+const STORAGE_KEY = 'kinetic-gesture-map-v1';
+const EXPORT_VERSION = 1;
+
+export const createAction = (type: GestureActionType): GestureAction => {
+  switch (type) {
+    case 'setShape':
+      return { type, shape: ParticleShape.SPHERE };
+    case 'setColor':
+      return { type, color: '#4ade80' };
+    case 'setText':
+      return { type, text: '大雷早上好' };
+    case 'burst':
+      return { type, strength: 0.8 };
+    case 'toggleRotation':
+      return { type };
+  }
+};
+
+const SHAPES = Object.values(ParticleShape) as string[];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Validate a single action from untrusted input (mapping JSON, voice tool calls)
+export const parseGestureAction = (raw: unknown): GestureAction => {
+  const a = raw as Record<string, unknown> | null;
+  switch (a?.type) {
+    case 'setShape':
+      if (typeof a.shape !== 'string' || !SHAPES.includes(a.shape)) {
+        throw new Error(`Unknown shape: ${String(a.shape)}`);
+      }
+      return { type: 'setShape', shape: a.shape as ParticleShape };
+    case 'setColor':
+      if (typeof a.color !== 'string' || !HEX_COLOR.test(a.color)) {
+        throw new Error(`Invalid color: ${String(a.color)}`);
+      }
+      return { type: 'setColor', color: a.color };
+    case 'setText':
+      if (typeof a.text !== 'string') {
+        throw new Error('setText needs a text string');
+      }
+      return { type: 'setText', text: a.text };
+    case 'burst': {
+      const strength = typeof a.strength === 'number' ? a.strength : 0.8;
+      return { type: 'burst', strength: Math.max(0, Math.min(1, strength)) };
+    }
+    case 'toggleRotation':
+      return { type: 'toggleRotation' };
+    default:
+      throw new Error(`Unknown action type: ${String(a?.type)}`);
+  }
+};
+
+/**
+ * Validate a mapping from untrusted JSON (import or localStorage).
+ * Accepts either the export envelope `{ version, mapping }` or a bare mapping object.
+ */
+export const parseGestureMapping = (data: unknown): GestureMapping => {
+  const envelope = data as { version?: unknown; mapping?: unknown } | null;
+  const raw = envelope && typeof envelope === 'object' && 'mapping' in envelope ? envelope.mapping : data;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Gesture mapping must be an object');
+  }
+
+  const mapping: GestureMapping = {};
+  for (const [gesture, actions] of Object.entries(raw as Record<string, unknown>)) {
+    if (!Array.isArray(actions)) {
+      throw new Error(`Actions for "${gesture}" must be an array`);
+    }
+    mapping[gesture as GestureType] = actions.map(parseGestureAction);
+  }
+  return mapping;
+};
+
+export const loadGestureMapping = (): GestureMapping => {
+  if (typeof window === 'undefined') return DEFAULT_GESTURE_MAPPING;
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? parseGestureMapping(JSON.parse(saved)) : DEFAULT_GESTURE_MAPPING;
+  } catch (err) {
+    console.warn('Ignoring saved gesture mapping:', err);
+    return DEFAULT_GESTURE_MAPPING;
+  }
+};
+
+export const saveGestureMapping = (mapping: GestureMapping) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+  } catch {
+    /* private mode */
+  }
+};
+
+export const exportGestureMapping = (mapping: GestureMapping): string =>
+  JSON.stringify({ version: EXPORT_VERSION, mapping }, null, 2);
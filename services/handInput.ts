@@ -0,0 +1,273 @@
+import { GestureType, HandData, HandPose } from '../types';
+import { HandTrackingService } from './handTrackingService';
+import { GeminiLiveService } from './geminiLiveService';
+import { GestureClassifier } from './gestureClassifier';
+
+export type HandInputKind = 'mediapipe' | 'gemini' | 'pointer' | 'keyboard' | 'replay';
+
+export type HandDataListener = (data: HandData) => void;
+
+/**
+ * A source of HandData. App.tsx only talks to this interface, so camera tracking,
+ * emulated input, recorded replays and test fakes are interchangeable.
+ */
+export interface HandInputProvider {
+  readonly kind: HandInputKind;
+  start(): Promise<void> | void;
+  stop(): void;
+}
+
+// What the live providers may need from the page
+export interface HandInputContext {
+  video: HTMLVideoElement; // Hidden camera preview element
+  stage: HTMLElement; // Element that receives pointer input
+  classifier?: GestureClassifier | null;
+  apiKey?: string;
+}
+
+export const NO_HANDS: HandData = { tension: 0, detected: false, leftHand: false, rightHand: false, gesture: 'none' };
+
+// Fallback gesture from tension alone, same thresholds as HandTrackingService
+const gestureForTension = (tension: number): GestureType => (tension > 0.7 ? 'fist' : tension < 0.3 ? 'open' : 'none');
+
+// ========================================
+// MEDIAPIPE (camera, on-device)
+// ========================================
+export class MediaPipeHandInput implements HandInputProvider {
+  readonly kind = 'mediapipe';
+  readonly service: HandTrackingService; // Exposed for gesture training and state recording
+  private video: HTMLVideoElement;
+
+  constructor(onUpdate: HandDataListener, context: HandInputContext) {
+    this.service = new HandTrackingService(onUpdate, context.classifier ?? null);
+    this.video = context.video;
+  }
+
+  start() {
+    return this.service.start(this.video);
+  }
+
+  stop() {
+    this.service.stop();
+  }
+}
+
+// ========================================
+// GEMINI LIVE VISION (camera frames sent to the model)
+// ========================================
+const GEMINI_FRAME_INTERVAL = 500; // ms - the model answers a couple of times per second at best
+const GEMINI_FRAME_WIDTH = 320;
+
+export class GeminiVisionHandInput implements HandInputProvider {
+  readonly kind = 'gemini';
+  private onUpdate: HandDataListener;
+  private video: HTMLVideoElement;
+  private apiKey: string;
+  private service: GeminiLiveService | null = null;
+  private stream: MediaStream | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(onUpdate: HandDataListener, context: HandInputContext) {
+    this.onUpdate = onUpdate;
+    this.video = context.video;
+    this.apiKey = context.apiKey ?? '';
+  }
+
+  async start() {
+    if (!this.apiKey) throw new Error('Gemini vision needs GEMINI_API_KEY');
+
+    this.stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480 }, audio: true });
+    this.video.srcObject = this.stream;
+    await this.video.play();
+
+    this.service = new GeminiLiveService(this.apiKey, ({ tension, detected }) => {
+      this.onUpdate({ tension, detected, gesture: detected ? gestureForTension(tension) : 'none' });
+    });
+    await this.service.connect(this.stream);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    this.timer = setInterval(() => {
+      if (!this.video.videoWidth) return;
+      canvas.width = GEMINI_FRAME_WIDTH;
+      canvas.height = Math.round((GEMINI_FRAME_WIDTH * this.video.videoHeight) / this.video.videoWidth);
+      ctx.drawImage(this.video, 0, 0, canvas.width, canvas.height);
+      this.service?.sendFrame(canvas.toDataURL('image/jpeg', 0.6).split(',')[1]);
+    }, GEMINI_FRAME_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.service?.disconnect();
+    this.service = null;
+    this.stream?.getTracks().forEach((track) => track.stop());
+    this.stream = null;
+    this.video.srcObject = null;
+  }
+}
+
+// ========================================
+// POINTER (mouse / touch drag emulation)
+// ========================================
+// Press anywhere on the stage to "show a hand"; drag down to close it, up to open.
+// The pointer doubles as the palm position, Shift pinches.
+export class PointerHandInput implements HandInputProvider {
+  readonly kind = 'pointer';
+  private onUpdate: HandDataListener;
+  private stage: HTMLElement;
+  private activePointer: number | null = null;
+
+  constructor(onUpdate: HandDataListener, context: HandInputContext) {
+    this.onUpdate = onUpdate;
+    this.stage = context.stage;
+  }
+
+  private emit(e: PointerEvent) {
+    const rect = this.stage.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+    const y = 1 - ((e.clientY - rect.top) / rect.height) * 2;
+    const tension = Math.max(0, Math.min(1, (1 - y) / 2));
+    const gesture = gestureForTension(tension);
+    const hand: HandPose = { tension, position: { x, y }, rotation: 0, pinch: e.shiftKey ? 1 : 0, gesture };
+    this.onUpdate({ tension, detected: true, rightHand: true, gesture, right: hand });
+  }
+
+  private handleDown = (e: PointerEvent) => {
+    if (this.activePointer !== null) return;
+    this.activePointer = e.pointerId;
+    this.stage.setPointerCapture(e.pointerId);
+    this.emit(e);
+  };
+
+  private handleMove = (e: PointerEvent) => {
+    if (e.pointerId === this.activePointer) this.emit(e);
+  };
+
+  private handleUp = (e: PointerEvent) => {
+    if (e.pointerId !== this.activePointer) return;
+    this.activePointer = null;
+    this.onUpdate(NO_HANDS);
+  };
+
+  start() {
+    this.stage.style.touchAction = 'none';
+    this.stage.addEventListener('pointerdown', this.handleDown);
+    this.stage.addEventListener('pointermove', this.handleMove);
+    this.stage.addEventListener('pointerup', this.handleUp);
+    this.stage.addEventListener('pointercancel', this.handleUp);
+  }
+
+  stop() {
+    this.stage.style.touchAction = '';
+    this.stage.removeEventListener('pointerdown', this.handleDown);
+    this.stage.removeEventListener('pointermove', this.handleMove);
+    this.stage.removeEventListener('pointerup', this.handleUp);
+    this.stage.removeEventListener('pointercancel', this.handleUp);
+    this.activePointer = null;
+  }
+}
+
+// ========================================
+// KEYBOARD emulation
+// ========================================
+// Hold Space to close the fist, digits 1-6 hold a gesture, Esc hides the hand.
+const KEY_GESTURES: Record<string, GestureType> = {
+  Digit1: 'victory',
+  Digit2: 'love',
+  Digit3: 'thumbs_up',
+  Digit4: 'point',
+  Digit5: 'open',
+  Digit6: 'fist',
+};
+
+const KEYBOARD_TICK = 1000 / 30;
+const TENSION_RATE = 3; // Full open → closed in about a third of a second
+
+export class KeyboardHandInput implements HandInputProvider {
+  readonly kind = 'keyboard';
+  private onUpdate: HandDataListener;
+  private tension = 0;
+  private closing = false;
+  private heldGesture: GestureType | null = null;
+  private visible = true;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(onUpdate: HandDataListener) {
+    this.onUpdate = onUpdate;
+  }
+
+  private isTyping(e: KeyboardEvent) {
+    const target = e.target as HTMLElement | null;
+    return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+  }
+
+  private handleDown = (e: KeyboardEvent) => {
+    if (this.isTyping(e)) return;
+    if (e.code === 'Space') {
+      this.closing = true;
+      e.preventDefault();
+    } else if (e.code in KEY_GESTURES) {
+      this.heldGesture = KEY_GESTURES[e.code];
+    } else if (e.code === 'Escape') {
+      this.visible = !this.visible;
+    }
+  };
+
+  private handleUp = (e: KeyboardEvent) => {
+    if (e.code === 'Space') this.closing = false;
+    if (KEY_GESTURES[e.code] === this.heldGesture) this.heldGesture = null;
+  };
+
+  private tick = () => {
+    const step = (TENSION_RATE * KEYBOARD_TICK) / 1000;
+    this.tension = Math.max(0, Math.min(1, this.tension + (this.closing ? step : -step)));
+
+    if (!this.visible) {
+      this.onUpdate(NO_HANDS);
+      return;
+    }
+    const gesture = this.heldGesture ?? gestureForTension(this.tension);
+    this.onUpdate({ tension: this.tension, detected: true, rightHand: true, gesture });
+  };
+
+  start() {
+    window.addEventListener('keydown', this.handleDown);
+    window.addEventListener('keyup', this.handleUp);
+    this.timer = setInterval(this.tick, KEYBOARD_TICK);
+  }
+
+  stop() {
+    window.removeEventListener('keydown', this.handleDown);
+    window.removeEventListener('keyup', this.handleUp);
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+// ========================================
+// REGISTRY
+// ========================================
+export const LIVE_HAND_INPUTS: { kind: Exclude<HandInputKind, 'replay'>; label: string }[] = [
+  { kind: 'mediapipe', label: 'Camera' },
+  { kind: 'gemini', label: 'Gemini Vision' },
+  { kind: 'pointer', label: 'Mouse / Touch' },
+  { kind: 'keyboard', label: 'Keyboard' },
+];
+
+export const createHandInput = (
+  kind: Exclude<HandInputKind, 'replay'>,
+  onUpdate: HandDataListener,
+  context: HandInputContext
+): HandInputProvider => {
+  switch (kind) {
+    case 'mediapipe':
+      return new MediaPipeHandInput(onUpdate, context);
+    case 'gemini':
+      return new GeminiVisionHandInput(onUpdate, context);
+    case 'pointer':
+      return new PointerHandInput(onUpdate, context);
+    case 'keyboard':
+      return new KeyboardHandInput(onUpdate);
+  }
+};
@@ -0,0 +1,174 @@
+import type { HandPose } from '../types';
+import type { HandState } from './handTrackingService';
+import type { HandDataListener, HandInputProvider } from './handInput';
+
+export interface HandRecordingFrame {
+  t: number; // Milliseconds since the recording started
+  state: HandState;
+}
+
+export interface HandRecording {
+  version: 1;
+  duration: number; // Milliseconds
+  frames: HandRecordingFrame[];
+}
+
+const IDLE_STATE: HandState = { tension: 0, detected: false, leftHand: false, rightHand: false, gesture: 'none' };
+
+// Collects timestamped HandState frames; HandTrackingService feeds it while recording
+export class HandStateRecorder {
+  private frames: HandRecordingFrame[] = [];
+  private startedAt = 0;
+
+  constructor(now: number = performance.now()) {
+    this.startedAt = now;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  push(state: HandState, now: number = performance.now()) {
+    this.frames.push({ t: now - this.startedAt, state });
+  }
+
+  finish(now: number = performance.now()): HandRecording {
+    return { version: 1, duration: now - this.startedAt, frames: this.frames };
+  }
+}
+
+export const serializeHandRecording = (recording: HandRecording): string => JSON.stringify(recording);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Absent and null both mean "hand not in view"; anything else must be a full HandPose
+const isHandPose = (value: unknown): value is HandPose | null | undefined => {
+  if (value === undefined || value === null) return true;
+  const pose = value as Partial<HandPose>;
+  return (
+    isNumber(pose.tension) &&
+    isNumber(pose.position?.x) &&
+    isNumber(pose.position?.y) &&
+    isNumber(pose.rotation) &&
+    isNumber(pose.pinch) &&
+    typeof pose.gesture === 'string'
+  );
+};
+
+const isRecordingFrame = (value: unknown): value is HandRecordingFrame => {
+  const frame = value as { t?: unknown; state?: Partial<Record<keyof HandState, unknown>> } | null;
+  return (
+    isNumber(frame?.t) &&
+    isNumber(frame?.state?.tension) &&
+    isHandPose(frame.state.left) &&
+    isHandPose(frame.state.right)
+  );
+};
+
+/**
+ * Validate a recording loaded from disk, dropping frames with malformed hands.
+ * Frames are sorted by time so replay can walk them with a single cursor.
+ */
+export const parseHandRecording = (data: unknown): HandRecording => {
+  const raw = data as { version?: unknown; frames?: unknown; duration?: unknown } | null;
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.frames)) {
+    throw new Error('Not a hand recording (expected version 1 with a frames array)');
+  }
+
+  const frames = raw.frames
+    .filter(isRecordingFrame)
+    .map((f) => {
+      const { left, right } = f.state;
+      return { t: f.t, state: { ...IDLE_STATE, ...f.state, left: left ?? undefined, right: right ?? undefined } };
+    })
+    .sort((a, b) => a.t - b.t);
+  if (frames.length === 0) {
+    throw new Error('Hand recording has no frames');
+  }
+
+  const last = frames[frames.length - 1].t;
+  const duration = typeof raw.duration === 'number' && raw.duration >= last ? raw.duration : last;
+  return { version: 1, duration, frames };
+};
+
+/**
+ * Plays a recording back through the same onUpdate callback HandTrackingService uses.
+ * Playback is driven by advance(ms): start() ticks it from requestAnimationFrame, while
+ * tests can call advance() directly for a deterministic frame sequence.
+ */
+export class HandReplaySource implements HandInputProvider {
+  readonly kind = 'replay';
+  private onUpdate: HandDataListener;
+  private recording: HandRecording;
+  private loop: boolean;
+  private elapsed = 0;
+  private nextFrame = 0;
+  private rafId: number | null = null;
+  private lastTick = 0;
+
+  constructor(onUpdate: HandDataListener, recording: HandRecording, loop: boolean = true) {
+    this.onUpdate = onUpdate;
+    this.recording = recording;
+    this.loop = loop;
+  }
+
+  get isRunning(): boolean {
+    return this.rafId !== null;
+  }
+
+  get progress(): number {
+    return this.recording.duration > 0 ? Math.min(this.elapsed / this.recording.duration, 1) : 1;
+  }
+
+  start() {
+    if (this.rafId !== null) return;
+    this.lastTick = performance.now();
+    const tick = (now: number) => {
+      // Clamp so a backgrounded tab doesn't fast-forward through many loops at once
+      this.advance(Math.min(now - this.lastTick, 100));
+      this.lastTick = now;
+      if (this.rafId !== null) this.rafId = requestAnimationFrame(tick);
+    };
+    this.rafId = requestAnimationFrame(tick);
+  }
+
+  // Hold the current frame, e.g. while an export drives advance() itself
+  pause() {
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+  }
+
+  rewind() {
+    this.elapsed = 0;
+    this.nextFrame = 0;
+  }
+
+  stop() {
+    this.pause();
+    this.onUpdate(IDLE_STATE);
+  }
+
+  // Emit every frame whose timestamp falls inside the next ms of playback, in order
+  advance(ms: number) {
+    const { frames, duration } = this.recording;
+    this.elapsed += ms;
+
+    while (true) {
+      while (this.nextFrame < frames.length && frames[this.nextFrame].t <= this.elapsed) {
+        this.onUpdate(frames[this.nextFrame].state);
+        this.nextFrame++;
+      }
+      if (this.elapsed < duration) return;
+
+      if (!this.loop) {
+        this.stop();
+        return;
+      }
+      this.elapsed -= duration;
+      this.nextFrame = 0;
+      if (duration <= 0) return;
+    }
+  }
+}
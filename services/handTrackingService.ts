@@ -1,6 +1,8 @@
 import { Hands, Results, NormalizedLandmark } from '@mediapipe/hands';
 import { Camera } from '@mediapipe/camera_utils';
-import { GestureType } from '../types';
+import { GestureType, HandPose } from '../types';
+import { GestureClassifier, normalizeLandmarks } from './gestureClassifier';
+import { HandRecording, HandStateRecorder } from './handReplay';
 
 export interface HandState {
   tension: number; // 0 (open palm) to 1 (closed fist)
@@ -8,6 +10,30 @@ export interface HandState {
   leftHand: boolean;
   rightHand: boolean;
   gesture: GestureType;
+  left?: HandPose;
+  right?: HandPose;
+}
+
+// Where Hands loads its WASM and model from. Defaults to the copy that
+// scripts/copy-mediapipe-assets.mjs puts in public/; set MEDIAPIPE_BASE to use a CDN.
+export const MEDIAPIPE_ASSET_BASE = process.env.MEDIAPIPE_BASE || '/mediapipe/hands/';
+
+export class HandTrackingError extends Error {
+  constructor(
+    readonly reason: 'assets' | 'camera',
+    message: string,
+    cause?: unknown
+  ) {
+    super(message, { cause });
+    this.name = 'HandTrackingError';
+  }
+}
+
+interface GestureRecording {
+  samples: number[][];
+  target: number;
+  onProgress?: (progress: number) => void;
+  resolve: (samples: number[][]) => void;
 }
 
 export class HandTrackingService {
@@ -15,9 +41,55 @@ export class HandTrackingService {
   private camera: Camera | null = null;
   private onUpdate: (state: HandState) => void;
   private isRunning: boolean = false;
+  private classifier: GestureClassifier | null;
+  private recording: GestureRecording | null = null;
+  private recorder: HandStateRecorder | null = null;
+  private assetBase: string;
 
-  constructor(onUpdate: (state: HandState) => void) {
+  constructor(
+    onUpdate: (state: HandState) => void,
+    classifier: GestureClassifier | null = null,
+    assetBase: string = MEDIAPIPE_ASSET_BASE
+  ) {
     this.onUpdate = onUpdate;
+    this.classifier = classifier;
+    this.assetBase = assetBase.endsWith('/') ? assetBase : `${assetBase}/`;
+  }
+
+  /**
+   * Capture normalized landmark vectors of the first visible hand for the next
+   * sampleCount frames. Resolves with the samples; feed them to GestureClassifier.
+   */
+  recordGesture(sampleCount: number, onProgress?: (progress: number) => void): Promise<number[][]> {
+    this.recording?.resolve(this.recording.samples);
+    return new Promise((resolve) => {
+      this.recording = { samples: [], target: sampleCount, onProgress, resolve };
+    });
+  }
+
+  cancelRecording() {
+    this.recording?.resolve([]);
+    this.recording = null;
+  }
+
+  // Record every emitted HandState with its timestamp, for HandReplaySource
+  startStateRecording() {
+    this.recorder = new HandStateRecorder();
+  }
+
+  stopStateRecording(): HandRecording | null {
+    const recording = this.recorder?.finish() ?? null;
+    this.recorder = null;
+    return recording;
+  }
+
+  get isRecordingStates(): boolean {
+    return this.recorder !== null;
+  }
+
+  private emit(state: HandState) {
+    this.recorder?.push(state);
+    this.onUpdate(state);
   }
 
   async start(videoElement: HTMLVideoElement) {
@@ -25,9 +97,7 @@ export class HandTrackingService {
 
     // Initialize MediaPipe Hands
     this.hands = new Hands({
-      locateFile: (file) => {
-        return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-      },
+      locateFile: (file) => `${this.assetBase}${file}`,
     });
 
     this.hands.setOptions({
@@ -39,6 +109,15 @@ export class HandTrackingService {
 
     this.hands.onResults((results) => this.processResults(results));
 
+    // Load the WASM and model up front so a missing asset fails here, not on the first frame
+    try {
+      await this.hands.initialize();
+    } catch (err) {
+      this.hands.close();
+      this.hands = null;
+      throw new HandTrackingError('assets', `Could not load the hand tracking model from ${this.assetBase}`, err);
+    }
+
     // Initialize Camera
     this.camera = new Camera(videoElement, {
       onFrame: async () => {
@@ -50,13 +129,19 @@ export class HandTrackingService {
       height: 480,
     });
 
-    await this.camera.start();
+    try {
+      await this.camera.start();
+    } catch (err) {
+      this.stop();
+      throw new HandTrackingError('camera', 'Could not start the camera. Please allow camera permissions.', err);
+    }
     this.isRunning = true;
     console.log('Hand tracking started');
   }
 
   stop() {
     this.isRunning = false;
+    this.cancelRecording();
     if (this.camera) {
       this.camera.stop();
       this.camera = null;
@@ -72,7 +157,7 @@ export class HandTrackingService {
     const { multiHandLandmarks, multiHandedness } = results;
 
     if (!multiHandLandmarks || multiHandLandmarks.length === 0) {
-      this.onUpdate({
+      this.emit({
         tension: 0,
         detected: false,
         leftHand: false,
@@ -85,26 +170,34 @@ export class HandTrackingService {
     let totalTension = 0;
     let leftHand = false;
     let rightHand = false;
+    let left: HandPose | undefined;
+    let right: HandPose | undefined;
     let detectedGesture: GestureType = 'none';
 
     for (let i = 0; i < multiHandLandmarks.length; i++) {
       const landmarks = multiHandLandmarks[i];
       const handedness = multiHandedness?.[i]?.label;
 
-      if (handedness === 'Left') {
-        rightHand = true; // Mirror image, so Left is actually Right
-      } else {
-        leftHand = true;
-      }
-
       const tension = this.calculateTension(landmarks);
       totalTension += tension;
+
+      const pose = normalizeLandmarks(landmarks, handedness === 'Left');
+      if (i === 0) this.captureSample(pose);
       
-      // Check for specific gestures
-      const gesture = this.detectGesture(landmarks);
+      // Trained poses take priority over the built-in heuristics
+      const gesture = this.classifier?.classify(pose)?.gesture ?? this.detectGesture(landmarks);
       if (gesture !== 'none') {
         detectedGesture = gesture;
       }
+
+      const handPose = this.describeHand(landmarks, tension, gesture);
+      if (handedness === 'Left') {
+        rightHand = true; // Mirror image, so Left is actually Right
+        right = handPose;
+      } else {
+        leftHand = true;
+        left = handPose;
+      }
     }
 
     // Average tension across all detected hands
@@ -119,15 +212,59 @@ export class HandTrackingService {
       }
     }
 
-    this.onUpdate({
+    this.emit({
       tension: avgTension,
       detected: true,
       leftHand,
       rightHand,
       gesture: detectedGesture,
+      left,
+      right,
     });
   }
 
+  // Palm position and roll in mirrored screen space, plus the hand's own gesture
+  private describeHand(landmarks: NormalizedLandmark[], tension: number, gesture: GestureType): HandPose {
+    // Palm center: wrist + the four finger MCPs
+    const palm = [0, 5, 9, 13, 17].map((i) => landmarks[i]);
+    const cx = palm.reduce((sum, p) => sum + p.x, 0) / palm.length;
+    const cy = palm.reduce((sum, p) => sum + p.y, 0) / palm.length;
+
+    // Wrist → middle MCP, mirrored horizontally like the preview
+    const dx = -(landmarks[9].x - landmarks[0].x);
+    const dy = landmarks[9].y - landmarks[0].y;
+
+    // Thumb-index gap relative to palm size, so it doesn't depend on distance to the camera
+    const gap = this.distance(landmarks[4], landmarks[8]) / (this.distance(landmarks[0], landmarks[9]) || 1);
+    const pinch = Math.max(0, Math.min(1, (1 - gap) / 0.8));
+
+    let handGesture = gesture;
+    if (handGesture === 'none') {
+      if (tension > 0.7) handGesture = 'fist';
+      else if (tension < 0.3) handGesture = 'open';
+    }
+
+    return {
+      tension,
+      position: { x: 1 - cx * 2, y: 1 - cy * 2 },
+      rotation: Math.atan2(-dx, -dy),
+      pinch,
+      gesture: handGesture,
+    };
+  }
+
+  private captureSample(pose: number[]) {
+    const recording = this.recording;
+    if (!recording) return;
+
+    recording.samples.push(pose);
+    recording.onProgress?.(recording.samples.length / recording.target);
+    if (recording.samples.length >= recording.target) {
+      this.recording = null;
+      recording.resolve(recording.samples);
+    }
+  }
+
   private detectGesture(landmarks: NormalizedLandmark[]): GestureType {
     // Finger tip indices: Thumb=4, Index=8, Middle=12, Ring=16, Pinky=20
     // Finger PIP indices: Thumb=3, Index=6, Middle=10, Ring=14, Pinky=18
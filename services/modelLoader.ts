@@ -0,0 +1,78 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+
+// Models are rescaled so their bounding sphere matches the procedural shapes (~radius 4)
+const TARGET_RADIUS = 4;
+
+export const isModelFile = (file: File): boolean => /\.(glb|gltf|obj)$/i.test(file.name);
+
+/**
+ * Load a local GLB/GLTF/OBJ file and flatten every mesh into a triangle soup:
+ * 9 floats per triangle (three xyz vertices), centred and scaled to the scene.
+ */
+export async function loadModelTriangles(file: File): Promise<Float32Array> {
+  let root: THREE.Object3D;
+
+  if (/\.obj$/i.test(file.name)) {
+    root = new OBJLoader().parse(await file.text());
+  } else {
+    const data = /\.gltf$/i.test(file.name) ? await file.text() : await file.arrayBuffer();
+    const gltf = await new GLTFLoader().parseAsync(data, '');
+    root = gltf.scene;
+  }
+
+  root.updateMatrixWorld(true);
+
+  const chunks: Float32Array[] = [];
+  const vertex = new THREE.Vector3();
+
+  root.traverse((object) => {
+    const mesh = object as THREE.Mesh;
+    if (!mesh.isMesh || !mesh.geometry?.attributes.position) return;
+
+    // Expand indexed geometry so every 3 vertices form one triangle
+    const geometry = mesh.geometry.index ? mesh.geometry.toNonIndexed() : mesh.geometry;
+    const position = geometry.attributes.position;
+    const chunk = new Float32Array(position.count * 3);
+
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      chunk[i * 3] = vertex.x;
+      chunk[i * 3 + 1] = vertex.y;
+      chunk[i * 3 + 2] = vertex.z;
+    }
+
+    chunks.push(chunk);
+    if (geometry !== mesh.geometry) geometry.dispose();
+  });
+
+  const total = chunks.reduce((sum, c) => sum + c.length, 0);
+  if (total < 9) {
+    throw new Error('Model contains no triangles');
+  }
+
+  const triangles = new Float32Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    triangles.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  // Centre on the bounding box and fit into the target radius
+  const box = new THREE.Box3();
+  for (let i = 0; i < triangles.length; i += 3) {
+    box.expandByPoint(vertex.set(triangles[i], triangles[i + 1], triangles[i + 2]));
+  }
+  const center = box.getCenter(new THREE.Vector3());
+  const radius = box.getSize(new THREE.Vector3()).length() / 2 || 1;
+  const scale = TARGET_RADIUS / radius;
+
+  for (let i = 0; i < triangles.length; i += 3) {
+    triangles[i] = (triangles[i] - center.x) * scale;
+    triangles[i + 1] = (triangles[i + 1] - center.y) * scale;
+    triangles[i + 2] = (triangles[i + 2] - center.z) * scale;
+  }
+
+  return triangles;
+}
@@ -0,0 +1,142 @@
+export type MorphEasing = 'linear' | 'easeInOutCubic' | 'easeOutExpo' | 'easeInOutSine' | 'easeOutBack';
+
+export const MORPH_EASINGS: Record<MorphEasing, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutExpo: (t) => (t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeOutBack: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+// Spread the low 10 bits of n so there are two zero bits between each (Morton encoding)
+const part1By2 = (n: number): number => {
+  n &= 0x3ff;
+  n = (n | (n << 16)) & 0x030000ff;
+  n = (n | (n << 8)) & 0x0300f00f;
+  n = (n | (n << 4)) & 0x030c30c3;
+  n = (n | (n << 2)) & 0x09249249;
+  return n;
+};
+
+// Order point indices along a Z-order curve inside the cloud's own bounding box,
+// so neighbouring ranks in two different clouds occupy "the same" relative region.
+const spatialOrder = (points: Float32Array, count: number): Uint32Array => {
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    minX = Math.min(minX, points[i3]);
+    minY = Math.min(minY, points[i3 + 1]);
+    minZ = Math.min(minZ, points[i3 + 2]);
+    maxX = Math.max(maxX, points[i3]);
+    maxY = Math.max(maxY, points[i3 + 1]);
+    maxZ = Math.max(maxZ, points[i3 + 2]);
+  }
+  const sx = 1023 / Math.max(maxX - minX, 1e-6);
+  const sy = 1023 / Math.max(maxY - minY, 1e-6);
+  const sz = 1023 / Math.max(maxZ - minZ, 1e-6);
+
+  const keys = new Uint32Array(count);
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const qx = Math.floor((points[i3] - minX) * sx);
+    const qy = Math.floor((points[i3 + 1] - minY) * sy);
+    const qz = Math.floor((points[i3 + 2] - minZ) * sz);
+    // Height is the most significant axis so vertical structure survives the morph
+    keys[i] = ((part1By2(qy) << 2) | (part1By2(qz) << 1) | part1By2(qx)) >>> 0;
+    order[i] = i;
+  }
+  order.sort((a, b) => keys[a] - keys[b]);
+  return order;
+};
+
+/**
+ * Pair every source particle with one target point so particle i keeps its
+ * identity: the returned array holds, at index i, the point particle i travels to.
+ */
+export const pairPoints = (source: Float32Array, target: Float32Array): Float32Array => {
+  const count = Math.min(source.length, target.length) / 3;
+  const sourceOrder = spatialOrder(source, count);
+  const targetOrder = spatialOrder(target, count);
+
+  const paired = new Float32Array(source.length);
+  for (let k = 0; k < count; k++) {
+    const s3 = sourceOrder[k] * 3;
+    const t3 = targetOrder[k] * 3;
+    paired[s3] = target[t3];
+    paired[s3 + 1] = target[t3 + 1];
+    paired[s3 + 2] = target[t3 + 2];
+  }
+  return paired;
+};
+
+export class MorphEngine {
+  private from: Float32Array | null = null;
+  private to: Float32Array | null = null;
+  private elapsed: number = 0;
+  private duration: number = 0;
+  private easing: (t: number) => number = MORPH_EASINGS.easeInOutCubic;
+
+  get isActive(): boolean {
+    return this.to !== null;
+  }
+
+  get progress(): number {
+    if (!this.to) return 1;
+    return this.duration > 0 ? Math.min(this.elapsed / this.duration, 1) : 1;
+  }
+
+  // Begin morphing from the current cloud (which may itself be mid-morph) to a new target
+  start(current: Float32Array, target: Float32Array, duration: number, easing: MorphEasing = 'easeInOutCubic') {
+    this.from = current.slice();
+    this.to = pairPoints(current, target);
+    this.elapsed = 0;
+    this.duration = Math.max(0, duration);
+    this.easing = MORPH_EASINGS[easing] ?? MORPH_EASINGS.easeInOutCubic;
+  }
+
+  // Paired endpoints of the running morph (null when idle) - the GPU path uploads these as textures
+  get source(): Float32Array | null {
+    return this.from;
+  }
+
+  get target(): Float32Array | null {
+    return this.to;
+  }
+
+  // Advance by delta seconds and return the eased blend factor (1 once finished)
+  advance(delta: number): number {
+    if (!this.to) return 1;
+    this.elapsed += delta;
+    return this.easing(this.progress);
+  }
+
+  // Advance by delta seconds and write the blended cloud into out. Returns false once finished.
+  step(delta: number, out: Float32Array): boolean {
+    if (!this.from || !this.to) return false;
+
+    const e = this.advance(delta);
+    const from = this.from;
+    const to = this.to;
+
+    for (let i = 0; i < out.length; i++) {
+      out[i] = from[i] + (to[i] - from[i]) * e;
+    }
+
+    if (this.progress >= 1) {
+      this.stop();
+      return false;
+    }
+    return true;
+  }
+
+  stop() {
+    this.from = null;
+    this.to = null;
+  }
+}
@@ -0,0 +1,15 @@
+// Register public/sw.js so a second visit (MediaPipe model included) works without network.
+// Scoped to the particle page; skipped in development, where the cache would serve stale Vite modules.
+export const registerOfflineCache = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+  // Earlier builds registered the worker for the whole site
+  navigator.serviceWorker.getRegistrations().then((registrations) => {
+    const rootScope = new URL('/', location.href).href;
+    registrations.filter((r) => r.scope === rootScope).forEach((r) => r.unregister());
+  });
+
+  navigator.serviceWorker.register('/sw.js', { scope: '/particles' }).catch((err) => {
+    console.warn('Offline cache unavailable:', err);
+  });
+};
@@ -0,0 +1,116 @@
+import type { PostQuality } from '../components/PostProcessing';
+
+export interface PerformanceTier {
+  name: string;
+  countScale: number; // Fraction of the requested particle count
+  maxPixelRatio: number;
+  postQuality: PostQuality | 'off'; // Best post-processing tier allowed
+}
+
+// Best first; the governor walks down this list when frames run long and back up when there is headroom
+export const PERFORMANCE_TIERS: PerformanceTier[] = [
+  { name: 'ultra', countScale: 1, maxPixelRatio: 2, postQuality: 'high' },
+  { name: 'high', countScale: 1, maxPixelRatio: 1.5, postQuality: 'medium' },
+  { name: 'medium', countScale: 0.5, maxPixelRatio: 1, postQuality: 'low' },
+  { name: 'low', countScale: 0.25, maxPixelRatio: 0.75, postQuality: 'off' },
+];
+
+export interface PerformanceSample {
+  fps: number; // Average over the last window
+  tier: number; // Index into PERFORMANCE_TIERS
+}
+
+const WINDOW = 1; // Seconds per FPS measurement
+const SLOW_RATIO = 0.85; // Below target * this counts as a slow window
+const FAST_RATIO = 0.95; // At or above target * this counts as headroom
+const DOWNGRADE_AFTER = 2; // Consecutive slow windows before stepping down
+const UPGRADE_AFTER = 5; // Consecutive fast windows before stepping up
+const SETTLE_TIME = 2; // Seconds ignored after a tier change while buffers rebuild and shaders compile
+const RETRY_BACKOFF = 30; // Seconds before retrying a tier that was too slow
+const MAX_FRAME = 0.5; // Longer deltas are a paused/background tab, not a slow frame
+
+/**
+ * Frame-time governor. Feed it every frame's delta; it averages FPS per window and
+ * moves between PERFORMANCE_TIERS with hysteresis so it doesn't oscillate: stepping
+ * down is quick, stepping up needs sustained headroom and waits out a backoff for
+ * tiers that already failed.
+ */
+export class PerformanceGovernor {
+  adaptive = true; // When false it only measures, the tier stays put
+  targetFps: number;
+  private currentTier = 0;
+  private clock = 0;
+  private elapsed = 0;
+  private frames = 0;
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private settle = SETTLE_TIME;
+  private failedAt: number[] = [];
+
+  constructor(targetFps: number = 60) {
+    this.targetFps = targetFps;
+  }
+
+  get tier(): number {
+    return this.currentTier;
+  }
+
+  // Jump to a tier (e.g. reset to the best one when adaptive mode is switched off)
+  setTier(tier: number) {
+    this.currentTier = Math.max(0, Math.min(tier, PERFORMANCE_TIERS.length - 1));
+    this.resetWindow();
+    this.settle = SETTLE_TIME;
+  }
+
+  // Returns a sample once per measurement window, null otherwise
+  tick(delta: number): PerformanceSample | null {
+    if (delta > MAX_FRAME) {
+      this.resetWindow();
+      return null;
+    }
+    this.clock += delta;
+    if (this.settle > 0) {
+      this.settle -= delta;
+      return null;
+    }
+
+    this.elapsed += delta;
+    this.frames++;
+    if (this.elapsed < WINDOW) return null;
+
+    const fps = this.frames / this.elapsed;
+    this.elapsed = 0;
+    this.frames = 0;
+
+    if (fps < this.targetFps * SLOW_RATIO) {
+      this.slowWindows++;
+      this.fastWindows = 0;
+    } else if (fps >= this.targetFps * FAST_RATIO) {
+      this.fastWindows++;
+      this.slowWindows = 0;
+    } else {
+      this.slowWindows = 0;
+      this.fastWindows = 0;
+    }
+
+    if (this.adaptive) {
+      const lowest = PERFORMANCE_TIERS.length - 1;
+      if (this.slowWindows >= DOWNGRADE_AFTER && this.currentTier < lowest) {
+        this.failedAt[this.currentTier] = this.clock;
+        this.setTier(this.currentTier + 1);
+      } else if (this.fastWindows >= UPGRADE_AFTER && this.currentTier > 0) {
+        const lastFailure = this.failedAt[this.currentTier - 1] ?? -Infinity;
+        if (this.clock - lastFailure > RETRY_BACKOFF) this.setTier(this.currentTier - 1);
+      }
+    }
+
+    return { fps, tier: this.currentTier };
+  }
+
+  private resetWindow() {
+    this.elapsed = 0;
+    this.frames = 0;
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+  }
+}
@@ -0,0 +1,149 @@
+import { ParticleShape } from '../types';
+import { DEFAULT_TEXT_STYLE, TEXT_FONTS, TextStyle } from '../components/ParticleSystem';
+import { COLOR_MODES, ColorMode, DEFAULT_COLORING, findPalette, PALETTES, ParticleColoring } from '../components/particleDynamics';
+
+// Everything needed to reproduce a particle scene from a link
+export interface ScenePreset {
+  shape: ParticleShape;
+  color: string;
+  text: string;
+  count: number;
+  textStyle: TextStyle;
+  rotate: boolean;
+  coloring: ParticleColoring;
+}
+
+export const DEFAULT_SCENE: ScenePreset = {
+  shape: ParticleShape.SPHERE,
+  color: '#4ade80',
+  text: '大雷早上好',
+  count: 12000,
+  textStyle: DEFAULT_TEXT_STYLE,
+  rotate: true,
+  coloring: DEFAULT_COLORING,
+};
+
+export const SCENE_PRESETS: { name: string; icon: string; preset: ScenePreset }[] = [
+  { name: 'Good Morning', icon: '☀️', preset: { ...DEFAULT_SCENE, shape: ParticleShape.TEXT, color: '#ffd700' } },
+  { name: 'Love', icon: '💗', preset: { ...DEFAULT_SCENE, shape: ParticleShape.HEART, color: '#ec4899' } },
+  { name: 'Ringed Planet', icon: '🪐', preset: { ...DEFAULT_SCENE, shape: ParticleShape.SATURN, color: '#06b6d4', count: 50000 } },
+  {
+    name: 'Deep Galaxy',
+    icon: '🌌',
+    preset: {
+      ...DEFAULT_SCENE,
+      shape: ParticleShape.GALAXY,
+      color: '#a78bfa',
+      count: 250000,
+      coloring: { mode: 'radius', palette: PALETTES[1].stops, speed: 0.1 },
+    },
+  },
+  {
+    name: 'Celebration',
+    icon: '🎆',
+    preset: {
+      ...DEFAULT_SCENE,
+      shape: ParticleShape.FIREWORKS,
+      color: '#ef4444',
+      count: 100000,
+      coloring: { mode: 'velocity', palette: PALETTES[3].stops, speed: 0 },
+    },
+  },
+  {
+    name: 'Hello World',
+    icon: '✨',
+    preset: {
+      ...DEFAULT_SCENE,
+      shape: ParticleShape.TEXT,
+      color: '#f8fafc',
+      text: 'Hello\nWorld ✨',
+      textStyle: { ...DEFAULT_TEXT_STYLE, fontWeight: 900, depth: 1 },
+    },
+  },
+];
+
+// Uploaded logos and models can't travel in a URL, so only the generated shapes are shareable
+const SHAREABLE_SHAPES = (Object.values(ParticleShape) as string[]).filter(
+  (shape) => shape !== ParticleShape.IMAGE && shape !== ParticleShape.MODEL
+);
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+const MIN_COUNT = 1000;
+const MAX_COUNT = 500000;
+
+/**
+ * Encode a preset as query parameters, e.g. `shape=Heart&color=ec4899&count=12000`.
+ * Text style and palette fields are only written when they differ from the default to keep links short.
+ */
+export const encodeScenePreset = (preset: ScenePreset): string => {
+  const params = new URLSearchParams();
+  if (SHAREABLE_SHAPES.includes(preset.shape)) params.set('shape', preset.shape);
+  params.set('color', preset.color.replace('#', ''));
+  params.set('text', preset.text);
+  params.set('count', String(preset.count));
+  if (!preset.rotate) params.set('rotate', '0');
+
+  const font = TEXT_FONTS.find((f) => f.family === preset.textStyle.fontFamily);
+  if (font && font.family !== DEFAULT_TEXT_STYLE.fontFamily) params.set('font', font.label);
+  if (preset.textStyle.fontWeight !== DEFAULT_TEXT_STYLE.fontWeight) params.set('weight', String(preset.textStyle.fontWeight));
+  if (preset.textStyle.depth !== DEFAULT_TEXT_STYLE.depth) params.set('depth', String(preset.textStyle.depth));
+
+  const { coloring } = preset;
+  if (coloring.mode !== DEFAULT_COLORING.mode) params.set('mode', coloring.mode);
+  const palette = findPalette(coloring.palette);
+  if (palette && palette !== findPalette(DEFAULT_COLORING.palette)) params.set('palette', palette.name);
+  if (coloring.speed !== DEFAULT_COLORING.speed) params.set('cycle', String(coloring.speed));
+  return params.toString();
+};
+
+/**
+ * Read a preset from untrusted query parameters. Missing or invalid fields fall back
+ * to DEFAULT_SCENE, so a hand-edited or truncated link still opens something sensible.
+ */
+export const parseScenePreset = (search: string): ScenePreset => {
+  const params = new URLSearchParams(search);
+  const preset: ScenePreset = {
+    ...DEFAULT_SCENE,
+    textStyle: { ...DEFAULT_SCENE.textStyle },
+    coloring: { ...DEFAULT_SCENE.coloring },
+  };
+
+  const shape = params.get('shape');
+  if (shape && SHAREABLE_SHAPES.includes(shape)) preset.shape = shape as ParticleShape;
+
+  const color = HEX_COLOR.exec(params.get('color') ?? '');
+  if (color) preset.color = `#${color[1].toLowerCase()}`;
+
+  const text = params.get('text');
+  if (text) preset.text = text;
+
+  const count = Number(params.get('count'));
+  if (Number.isFinite(count) && count > 0) preset.count = Math.round(Math.max(MIN_COUNT, Math.min(MAX_COUNT, count)));
+
+  if (params.get('rotate') === '0') preset.rotate = false;
+
+  const font = TEXT_FONTS.find((f) => f.label.toLowerCase() === params.get('font')?.toLowerCase());
+  if (font) preset.textStyle.fontFamily = font.family;
+
+  const weight = Number(params.get('weight'));
+  if (weight >= 100 && weight <= 900) preset.textStyle.fontWeight = Math.round(weight / 100) * 100;
+
+  const depth = Number(params.get('depth'));
+  if (depth > 0 && depth <= 3) preset.textStyle.depth = depth;
+
+  const mode = params.get('mode');
+  if (mode && (COLOR_MODES as string[]).includes(mode)) preset.coloring.mode = mode as ColorMode;
+
+  const palette = PALETTES.find((p) => p.name.toLowerCase() === params.get('palette')?.toLowerCase());
+  if (palette) preset.coloring.palette = palette.stops;
+
+  const cycle = params.get('cycle');
+  if (cycle !== null && Number(cycle) >= 0 && Number(cycle) <= 1) preset.coloring.speed = Number(cycle);
+
+  return preset;
+};
+
+// Absolute link to the current page with the preset in the query (keeps '#/particles' routes intact)
+export const scenePresetUrl = (preset: ScenePreset): string => {
+  const { origin, pathname, hash } = window.location;
+  return `${origin}${pathname}?${encodeScenePreset(preset)}${hash}`;
+};
@@ -0,0 +1,85 @@
+import { HandData } from '../types';
+import type { ScenePreset } from './scenePreset';
+import type { PostSettings } from '../components/PostProcessing';
+import type { BurstTrigger, CloudRotation, ForceMode } from '../components/particleDynamics';
+
+// 'solo' is the normal single-window page; a show has one controller and any number of followers
+export type ShowRole = 'solo' | 'controller' | 'follower';
+
+export const SHOW_ROLES: ShowRole[] = ['solo', 'controller', 'follower'];
+
+// Which slice of the panoramic wall this window renders (all windows should be the same size)
+export interface ShowConfig {
+  role: ShowRole;
+  column: number; // 0-based, left to right
+  columns: number;
+}
+
+export const SOLO_SHOW: ShowConfig = { role: 'solo', column: 0, columns: 1 };
+
+// Everything a follower needs besides the hand stream
+export interface ShowState {
+  epoch: number; // Date.now() the shared animation clock counts from
+  scene: ScenePreset;
+  forceMode: ForceMode | 'off';
+  post: PostSettings;
+  burst: BurstTrigger | null;
+}
+
+export interface ShowCamera {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  cloudRotation: CloudRotation | null; // Particle cloud, so followers don't integrate their own spin
+}
+
+export type ShowMessage =
+  | { type: 'hello' } // A follower joined and wants the current state
+  | { type: 'state'; state: ShowState }
+  | { type: 'hand'; data: HandData }
+  | { type: 'camera'; camera: ShowCamera };
+
+const CHANNEL_NAME = 'kinetic-particles-show-v1';
+const MAX_COLUMNS = 8;
+
+export const parseShowConfig = (search: string): ShowConfig => {
+  const params = new URLSearchParams(search);
+  const role = params.get('show');
+  if (role !== 'controller' && role !== 'follower') return SOLO_SHOW;
+
+  const columns = Math.max(1, Math.min(MAX_COLUMNS, Math.round(Number(params.get('columns')) || 1)));
+  const column = Math.max(0, Math.min(columns - 1, Math.round(Number(params.get('column')) || 0)));
+  return { role, column, columns };
+};
+
+// Query parameters for a show window; empty for solo so normal links stay unchanged
+export const encodeShowConfig = (config: ShowConfig): string => {
+  if (config.role === 'solo') return '';
+  const params = new URLSearchParams({ show: config.role, column: String(config.column), columns: String(config.columns) });
+  return params.toString();
+};
+
+export const isShowSupported = (): boolean => typeof BroadcastChannel !== 'undefined';
+
+/**
+ * Same-origin message bus between the show windows. The controller owns hand
+ * tracking and the UI and posts HandData, scene state, its camera and the cloud's
+ * rotation; followers only render. Each window still simulates its own particles,
+ * so they stay in step by sharing inputs, a seeded particle layout and one
+ * animation clock.
+ */
+export class ShowChannel {
+  private channel: BroadcastChannel;
+
+  constructor(onMessage: (message: ShowMessage) => void) {
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (e: MessageEvent<ShowMessage>) => onMessage(e.data);
+  }
+
+  post(message: ShowMessage) {
+    this.channel.postMessage(message);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
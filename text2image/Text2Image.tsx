@@ -1,4 +1,5 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { isChinese, LANGUAGES, useI18n, type LocalizedText } from '../i18n';
 
 /* ---------------------------------------------------------------------------
  * /text2image — "文生图提示词工坊" workshop column.
@@ -11,31 +12,9 @@ import React, { useEffect, useMemo, useState } from 'react';
  * All copy, templates and swatches are original, built for the workshop.
  * ------------------------------------------------------------------------- */
 
-type Lang = 'en' | 'zh' | 'zhHant';
-interface T { en: string; zh: string }
-
-const STORAGE_KEY = 'dalei-lang-v2';
-const detectInitialLang = (): Lang => {
-  if (typeof window === 'undefined') return 'en';
-  const saved = window.localStorage.getItem(STORAGE_KEY);
-  return saved === 'zh' || saved === 'zhHant' ? saved : 'en';
-};
-
-let _s2t: ((s: string) => string) | null = null;
-const useS2T = (active: boolean) => {
-  const [conv, setConv] = useState<((s: string) => string) | null>(() => _s2t);
-  useEffect(() => {
-    if (!active || _s2t) { if (_s2t && !conv) setConv(() => _s2t); return; }
-    let alive = true;
-    import('opencc-js').then((m) => { _s2t = (m as any).Converter({ from: 'cn', to: 'tw' }); if (alive) setConv(() => _s2t); }).catch(() => {});
-    return () => { alive = false; };
-  }, [active, conv]);
-  return conv;
-};
-
 /* ===================== prompt anatomy (7 building blocks) ================= */
 
-interface Block { key: string; color: string; label: T; hint: T; sampleZh: string; sampleEn: string }
+interface Block { key: string; color: string; label: LocalizedText; hint: LocalizedText; sampleZh: string; sampleEn: string }
 const BLOCKS: Block[] = [
   { key: 'subject', color: '#2f6fb0', label: { en: 'Subject', zh: '主体' }, hint: { en: 'who / what — the one thing the image is about', zh: '画面是「谁 / 什么」，越具体越好' }, sampleZh: '一位年轻女咖啡师，围裙，专注地拉花', sampleEn: 'a young female barista in an apron, focused, pouring latte art' },
   { key: 'scene', color: '#5c8a3a', label: { en: 'Scene', zh: '场景 / 环境' }, hint: { en: 'where it happens, background, props', zh: '发生在哪里、背景、道具' }, sampleZh: '在温暖的精品咖啡馆吧台后，木质装潢，虚化的顾客', sampleEn: 'behind the counter of a warm specialty café, wooden interior, blurred customers' },
@@ -49,7 +28,7 @@ const BLOCKS: Block[] = [
 /* ===================== interactive builder options ======================= */
 
 interface Opt { zh: string; en: string }
-interface Dim { key: string; label: T; color: string; opts: Opt[] }
+interface Dim { key: string; label: LocalizedText; color: string; opts: Opt[] }
 const DIMS: Dim[] = [
   { key: 'scene', label: { en: 'Scene', zh: '场景' }, color: '#5c8a3a', opts: [
     { zh: '精品咖啡馆吧台后', en: 'behind a specialty café counter' },
@@ -93,12 +72,12 @@ const QUALITY = { zh: '高细节，锐利对焦，8K', en: 'high detail, sharp f
 /* ===================== teaching scenario templates ======================= */
 
 interface Scene {
-  id: string; icon: string; grad: [string, string]; title: T; use: T;
-  templateZh: string; templateEn: string; tip: T;
+  id: string; icon: string; grad: [string, string]; title: LocalizedText; use: LocalizedText;
+  templateZh: string; templateEn: string; tip: LocalizedText;
   /** Multi-line prompt — gets a full-width card and a scrollable, structured block. */
   long?: boolean;
   /** Set when the prompt is someone else's work, so the credit travels with it. */
-  source?: { label: T; url: string };
+  source?: { label: LocalizedText; url: string };
 }
 const SCENES: Scene[] = [
   {
@@ -293,7 +272,7 @@ const STYLE_LOCK_EN = `[STYLE LOCK · system prefix] Apply this style to every i
 
 [Change only this line per image] Subject: {write this image's specific content here}`;
 
-interface Lever { icon: string; title: T; body: T }
+interface Lever { icon: string; title: LocalizedText; body: LocalizedText }
 const LEVERS: Lever[] = [
   { icon: '🔒', title: { en: 'Style prefix (system)', zh: '风格前缀（系统级）' }, body: { en: 'Put medium + palette + light + composition in a fixed block; reuse it verbatim for every image. Only the subject line changes.', zh: '把「媒介 + 配色 + 光线 + 构图」写成固定块，每张原样复用，只改主体那一行。' } },
   { icon: '🚫', title: { en: 'Negative prompt', zh: '负向提示词' }, body: { en: 'A shared "do-not" list (text, watermark, extra fingers, clutter) kills the most common failures across the whole batch.', zh: '一份共用的「不要」清单（文字、水印、多余手指、杂乱）能一次性挡掉整批最常见的翻车。' } },
@@ -303,7 +282,7 @@ const LEVERS: Lever[] = [
 
 /* ===================== modifier cheat-sheet ============================== */
 
-interface ChipGroup { label: T; color: string; chips: Opt[] }
+interface ChipGroup { label: LocalizedText; color: string; chips: Opt[] }
 const CHIPS: ChipGroup[] = [
   { label: { en: 'Style', zh: '风格' }, color: '#c2703c', chips: [
     { zh: '写实摄影', en: 'realistic photography' }, { zh: '电影感', en: 'cinematic' }, { zh: '3D 渲染', en: '3D render' },
@@ -333,10 +312,7 @@ const CHIPS: ChipGroup[] = [
 interface Props { onHome: () => void }
 
 const Text2Image: React.FC<Props> = ({ onHome }) => {
-  const [lang, setLang] = useState<Lang>(detectInitialLang);
-  const s2t = useS2T(lang === 'zhHant');
-  const t = (txt: T) => (lang === 'en' ? txt.en : lang === 'zhHant' ? (s2t ? s2t(txt.zh) : txt.zh) : txt.zh);
-  useEffect(() => { if (typeof window !== 'undefined') window.localStorage.setItem(STORAGE_KEY, lang); }, [lang]);
+  const { lang, setLang, t, zh } = useI18n();
 
   const [copied, setCopied] = useState<string | null>(null);
   const copy = (key: string, text: string) => {
@@ -347,7 +323,7 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
   };
 
   // builder state: selected option index per dimension + free-text subject
-  const [subject, setSubject] = useState<T>({ zh: '一位年轻女咖啡师，围裙，专注拉花', en: 'a young female barista in an apron, focused on latte art' });
+  const [subject, setSubject] = useState<LocalizedText>({ zh: '一位年轻女咖啡师，围裙，专注拉花', en: 'a young female barista in an apron, focused on latte art' });
   const [sel, setSel] = useState<Record<string, number>>({ scene: 0, style: 0, light: 0, camera: 1, aspect: 3 });
 
   const built = useMemo(() => {
@@ -358,8 +334,6 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
     return { zh, en };
   }, [subject, sel]);
 
-  const LANGS: { code: Lang; label: string }[] = [{ code: 'en', label: 'EN' }, { code: 'zh', label: '简' }, { code: 'zhHant', label: '繁' }];
-
   // render a template string, highlighting {slots}
   const renderTemplate = (tpl: string) => tpl.split(/(\{[^}]+\})/g).map((part, i) =>
     part.startsWith('{') && part.endsWith('}')
@@ -390,7 +364,7 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
           <div className="flex items-center gap-3">
             <span className="hidden font-mono text-[11px] uppercase tracking-[0.2em] text-gold sm:inline">Workshop · 文生图</span>
             <div className="flex overflow-hidden rounded-full border border-ink/15">
-              {LANGS.map((l) => (
+              {LANGUAGES.map((l) => (
                 <button key={l.code} onClick={() => setLang(l.code)} className={`px-2.5 py-1 font-mono text-[11px] transition-colors ${lang === l.code ? 'bg-ink text-paper' : 'text-ink/55 hover:text-ink'}`}>{l.label}</button>
               ))}
             </div>
@@ -421,8 +395,8 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
             <p className="mt-3 text-[15px] leading-loose">
               {BLOCKS.map((b, i) => (
                 <React.Fragment key={b.key}>
-                  <span className="rounded px-1.5 py-0.5" style={{ backgroundColor: `${b.color}1f`, color: b.color }}>{lang === 'en' ? b.sampleEn : (lang === 'zhHant' && s2t ? s2t(b.sampleZh) : b.sampleZh)}</span>
-                  {i < BLOCKS.length - 1 && <span className="text-ink/30">{lang === 'en' ? ', ' : '，'}</span>}
+                  <span className="rounded px-1.5 py-0.5" style={{ backgroundColor: `${b.color}1f`, color: b.color }}>{isChinese(lang) ? zh(b.sampleZh) : b.sampleEn}</span>
+                  {i < BLOCKS.length - 1 && <span className="text-ink/30">{isChinese(lang) ? '，' : ', '}</span>}
                 </React.Fragment>
               ))}
             </p>
@@ -452,12 +426,12 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
             <div className="rounded-2xl border border-ink/10 bg-surface/40 p-5">
               <label className="font-mono text-[10px] uppercase tracking-[0.18em] text-ink/40">{t({ en: 'Subject (type freely)', zh: '主体（自由输入）' })}</label>
               <input
-                value={lang === 'en' ? subject.en : subject.zh}
-                onChange={(e) => setSubject((s) => (lang === 'en' ? { ...s, en: e.target.value } : { ...s, zh: e.target.value }))}
+                value={isChinese(lang) ? subject.zh : subject.en}
+                onChange={(e) => setSubject((s) => (isChinese(lang) ? { ...s, zh: e.target.value } : { ...s, en: e.target.value }))}
                 className="mt-1.5 w-full rounded-lg border border-ink/15 bg-paper px-3 py-2 text-sm text-ink outline-none focus:border-gold/50"
                 placeholder={t({ en: 'e.g. a young barista pouring latte art', zh: '如：一位年轻咖啡师专注拉花' })}
               />
-              {lang !== 'en' && <p className="mt-1 font-mono text-[10px] text-ink/35">{t({ en: '', zh: '英文版将沿用中文主体的对应描述' })}</p>}
+              {isChinese(lang) && <p className="mt-1 font-mono text-[10px] text-ink/35">{t({ en: '', zh: '英文版将沿用中文主体的对应描述' })}</p>}
 
               {DIMS.map((d) => (
                 <div key={d.key} className="mt-4">
@@ -515,11 +489,11 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
                   <div className="overflow-hidden rounded-xl border border-ink/12 bg-ink/[0.03]">
                     <div className="flex items-center justify-between gap-2 border-b border-ink/10 px-3 py-1.5">
                       <span className="font-mono text-[10px] uppercase tracking-[0.16em] text-gold">{t({ en: 'Template', zh: '模板' })}</span>
-                      <CopyBtn k={`sc-${sc.id}`} text={lang === 'en' ? sc.templateEn : sc.templateZh} />
+                      <CopyBtn k={`sc-${sc.id}`} text={isChinese(lang) ? sc.templateZh : sc.templateEn} />
                     </div>
                     <p className={`px-3 py-2.5 text-[12.5px] leading-relaxed text-ink/75 ${sc.long ? 'max-h-80 overflow-y-auto' : ''}`}>
                       {(() => {
-                        const tpl = lang === 'en' ? sc.templateEn : (lang === 'zhHant' && s2t ? s2t(sc.templateZh) : sc.templateZh);
+                        const tpl = isChinese(lang) ? zh(sc.templateZh) : sc.templateEn;
                         return sc.long ? renderLongTemplate(tpl) : renderTemplate(tpl);
                       })()}
                     </p>
@@ -556,9 +530,9 @@ const Text2Image: React.FC<Props> = ({ onHome }) => {
           <div className="mt-5 overflow-hidden rounded-2xl border border-accent/25 bg-accent/[0.04]">
             <div className="flex items-center justify-between gap-2 border-b border-accent/20 px-4 py-2">
               <span className="font-mono text-[10px] uppercase tracking-[0.18em] text-accent">{t({ en: 'Reusable "style lock" — paste before every image', zh: '可复用「风格锁」—— 每张图前先粘这段' })}</span>
-              <CopyBtn k="lock" text={lang === 'en' ? STYLE_LOCK_EN : STYLE_LOCK_ZH} />
+              <CopyBtn k="lock" text={isChinese(lang) ? STYLE_LOCK_ZH : STYLE_LOCK_EN} />
             </div>
-            <pre className="overflow-x-auto whitespace-pre-wrap px-4 py-3 font-mono text-[11.5px] leading-relaxed text-ink/75">{lang === 'en' ? STYLE_LOCK_EN : (lang === 'zhHant' && s2t ? s2t(STYLE_LOCK_ZH) : STYLE_LOCK_ZH)}</pre>
+            <pre className="overflow-x-auto whitespace-pre-wrap px-4 py-3 font-mono text-[11.5px] leading-relaxed text-ink/75">{isChinese(lang) ? zh(STYLE_LOCK_ZH) : STYLE_LOCK_EN}</pre>
           </div>
         </section>
 
@@ -7,7 +7,9 @@ export enum ParticleShape {
   FIREWORKS = 'Fireworks',
   GALAXY = 'Galaxy',
   DNA = 'DNA',
-  TEXT = 'Text'
+  TEXT = 'Text',
+  IMAGE = 'Image',
+  MODEL = 'Model'
 }
 
 export interface ParticleState {
@@ -18,7 +20,21 @@ export interface ParticleState {
   isStreaming: boolean;
 }
 
-export type GestureType = 'none' | 'open' | 'fist' | 'victory' | 'love' | 'thumbs_up' | 'point';
+export type BuiltinGesture = 'none' | 'open' | 'fist' | 'victory' | 'love' | 'thumbs_up' | 'point';
+
+// User-trained poses recognised by the landmark classifier, e.g. 'custom:crown'
+export type CustomGesture = `custom:${string}`;
+
+export type GestureType = BuiltinGesture | CustomGesture;
+
+// Per-hand tracking state, in mirrored (selfie) screen space
+export interface HandPose {
+  tension: number; // 0 (open) to 1 (closed)
+  position: { x: number; y: number }; // Palm center, -1 (left/bottom) to 1 (right/top)
+  rotation: number; // Palm roll in radians, 0 = fingers up, positive = counter-clockwise
+  pinch: number; // 0 (thumb and index apart) to 1 (touching)
+  gesture: GestureType;
+}
 
 export interface HandData {
   tension: number; // 0 (open) to 1 (closed)
@@ -26,4 +42,6 @@ export interface HandData {
   leftHand?: boolean;
   rightHand?: boolean;
   gesture?: GestureType;
+  left?: HandPose;
+  right?: HandPose;
 }